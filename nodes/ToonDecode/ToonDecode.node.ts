@@ -64,6 +64,42 @@ export class ToonDecode implements INodeType {
 				placeholder: 'Add Option',
 				default: {},
 				options: [
+					{
+						displayName: 'Expand Dictionary Codes',
+						name: 'expandDictionary',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to replace codes like `~1` with the strings listed in `_dictionary` keys, and remove those keys',
+					},
+					{
+						displayName: 'Key Legend',
+						name: 'keyLegend',
+						type: 'json',
+						default: '',
+						placeholder: '={{ $json.toonLegend }}',
+						description: 'Aliases written to the Legend Field of the TOON Encode node (alias → key), to restore the original keys',
+					},
+					{
+						displayName: 'Merge Partitioned Arrays',
+						name: 'mergePartitions',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to merge parts like `events.click` and `events.purchase` back into one array, in `_index` order',
+					},
+					{
+						displayName: 'Restore Aliased Keys',
+						name: 'restoreKeys',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to replace aliases with the original keys listed in the `_legend` key, and remove it',
+					},
+					{
+						displayName: 'Restore Constant Columns',
+						name: 'injectConstants',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to add columns from `_constants` keys back to every row of their tables',
+					},
 					{
 						displayName: 'Strict Mode',
 						name: 'strict',
@@ -88,11 +124,26 @@ export class ToonDecode implements INodeType {
 
 				const optionsData = this.getNodeParameter('options', i, {}) as {
 					strict?: boolean;
+					injectConstants?: boolean;
+					mergePartitions?: boolean;
+					restoreKeys?: boolean;
+					expandDictionary?: boolean;
+					keyLegend?: string | Record<string, string>;
 				};
 
+				// A legend from an expression arrives as an object, a typed one as JSON text
+				const keyLegend =
+					typeof optionsData.keyLegend === 'string' && optionsData.keyLegend.trim()
+						? (JSON.parse(optionsData.keyLegend) as Record<string, string>)
+						: optionsData.keyLegend || undefined;
+
 				// Build DecodeOptions
 				const options: DecodeOptions = {
 					strict: optionsData.strict ?? false,
+					injectConstants: optionsData.injectConstants ?? false,
+					mergePartitions: optionsData.mergePartitions ?? false,
+					expandDictionary: optionsData.expandDictionary ?? false,
+					legend: typeof keyLegend === 'object' ? keyLegend : optionsData.restoreKeys ?? false,
 				};
 
 				// Decode
@@ -1,4 +1,5 @@
 import {
+	IDataObject,
 	IExecuteFunctions,
 	INodeExecutionData,
 	INodeType,
@@ -6,7 +7,23 @@ import {
 	NodeOperationError,
 } from 'n8n-workflow';
 
-import { encode, type EncodeOptions } from '../../src/toon-lib';
+import {
+	analyze,
+	encode,
+	EncodeError,
+	encodeWithReport,
+	type EncodeOptions,
+	type EncodeReport,
+	type GroupBy,
+	type PathOverride,
+} from '../../src/toon-lib';
+
+// Length Markers choice of a path override; Default keeps the document-wide setting
+const OVERRIDE_LENGTH_MARKERS: Record<'' | 'on' | 'off', PathOverride['lengthMarker']> = {
+	'': undefined,
+	on: '#',
+	off: false,
+};
 
 export class ToonEncode implements INodeType {
 	description: INodeTypeDescription = {
@@ -42,6 +59,26 @@ export class ToonEncode implements INodeType {
 				required: true,
 				placeholder: '={{ $json }}',
 			},
+			// Mode
+			{
+				displayName: 'Mode',
+				name: 'mode',
+				type: 'options',
+				noDataExpression: true,
+				default: 'encode',
+				options: [
+					{
+						name: 'Encode',
+						value: 'encode',
+						description: 'Write the TOON string to the output field',
+					},
+					{
+						name: 'Analyze',
+						value: 'analyze',
+						description: 'Write a report on how each array is laid out and the estimated token savings',
+					},
+				],
+			},
 			// Output Field
 			{
 				displayName: 'Output Field',
@@ -62,15 +99,13 @@ export class ToonEncode implements INodeType {
 				default: {},
 				options: [
 					{
-						displayName: 'Indent',
-						name: 'indent',
-						type: 'number',
-						default: 2,
-						typeOptions: {
-							minValue: 0,
-							maxValue: 10,
-						},
-						description: 'Spaces per indentation level (0 = compact)',
+						displayName: 'Alias Long Keys',
+						name: 'aliasLongKeys',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to replace keys of 10+ characters with **short aliases** by their initials.<br/>' +
+							'• e.g. `customerAccountIdentifier` → `cai`<br/>' +
+							'• The legend goes into a `_legend` key or the Legend Field',
 					},
 					{
 						displayName: 'Array Delimiter',
@@ -78,20 +113,173 @@ export class ToonEncode implements INodeType {
 						type: 'options',
 						default: ',',
 						options: [
+							{
+								name: 'Auto (Per Array)',
+								value: 'auto-array',
+							},
+							{
+								name: 'Auto (Per Document)',
+								value: 'auto',
+							},
 							{
 								name: 'Comma (`,`)',
 								value: ',',
 							},
+							{
+								name: 'Pipe (`|`)',
+								value: '|',
+							},
 							{
 								name: 'Tab',
 								value: '\t',
 							},
+						],
+						description: 'Delimiter for tabular arrays. Auto picks the one that needs the fewest quoted values.',
+					},
+					{
+						displayName: 'Exclude Paths',
+						name: 'exclude',
+						type: 'string',
+						typeOptions: {
+							multipleValues: true,
+							multipleValueButtonText: 'Add Path',
+						},
+						default: [],
+						placeholder: '**._links',
+						description: '**Remove** these paths before encoding.<br/>' +
+							'• Same patterns as Include Paths<br/>' +
+							'• e.g. `**._links`, `etag`, `*.metadata`',
+					},
+					{
+						displayName: 'Fail on Warnings',
+						name: 'failOnWarnings',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to **stop** when a value can\'t be encoded as it is.<br/>' +
+							'• e.g. `NaN` → `null`, big BigInt → string, Set → array',
+					},
+					{
+						displayName: 'Group By',
+						name: 'groupBy',
+						type: 'fixedCollection',
+						typeOptions: {
+							multipleValues: true,
+						},
+						placeholder: 'Add Grouping',
+						default: {},
+						description: '**Group rows** that repeat the same values, e.g. one group per customer.<br/>' +
+							'• Group fields are written once per group<br/>' +
+							'• The other columns become a nested table',
+						options: [
 							{
-								name: 'Pipe (`|`)',
-								value: '|',
+								name: 'group',
+								displayName: 'Grouping',
+								values: [
+									{
+										displayName: 'Array Path',
+										name: 'path',
+										type: 'string',
+										default: '',
+										placeholder: 'orderLines',
+										description: 'Array to group, same patterns as Include Paths. Leave empty for a root array.',
+									},
+									{
+										displayName: 'Fields',
+										name: 'fields',
+										type: 'string',
+										default: '',
+										placeholder: 'customerId, customerName, country',
+										description: 'Comma-separated fields that define a group',
+									},
+									{
+										displayName: 'Nested Array Key',
+										name: 'childKey',
+										type: 'string',
+										default: 'items',
+										description: 'Key of the nested table in each group',
+									},
+								],
 							},
 						],
-						description: 'Delimiter for tabular arrays',
+					},
+					{
+						displayName: 'Hoist Constant Columns',
+						name: 'hoistConstants',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to write table columns with the **same value in every row** once.<br/>' +
+							'• e.g. `currency: EUR` moves to a `_constants` key<br/>' +
+							'• Tables need at least 3 rows',
+					},
+					{
+						displayName: 'Include Paths',
+						name: 'include',
+						type: 'string',
+						typeOptions: {
+							multipleValues: true,
+							multipleValueButtonText: 'Add Path',
+						},
+						default: [],
+						placeholder: 'users[*].email',
+						description: '**Keep only** these paths.<br/>' +
+							'• `*` any key, `[*]` any array item, `**` any depth<br/>' +
+							'• e.g. `users[*].email`, `**.id`',
+					},
+					{
+						displayName: 'Indent',
+						name: 'indent',
+						type: 'number',
+						default: 2,
+						typeOptions: {
+							minValue: 0,
+							maxValue: 10,
+						},
+						description: 'Spaces per indentation level (0 = compact)',
+					},
+					{
+						displayName: 'Key Aliases',
+						name: 'keyAliases',
+						type: 'fixedCollection',
+						typeOptions: {
+							multipleValues: true,
+						},
+						placeholder: 'Add Alias',
+						default: {},
+						description: '**Your own aliases** for keys, used before the automatic ones',
+						options: [
+							{
+								name: 'alias',
+								displayName: 'Alias',
+								values: [
+									{
+										displayName: 'Alias',
+										name: 'alias',
+										type: 'string',
+										default: '',
+										placeholder: 'cid',
+										description: 'Short name written instead of the key',
+									},
+									{
+										displayName: 'Key',
+										name: 'key',
+										type: 'string',
+										default: '',
+										placeholder: 'customerIdentifier',
+										description: 'Key to replace, wherever it appears',
+									},
+								],
+							},
+						],
+					},
+					{
+						displayName: 'Legend Field',
+						name: 'legendField',
+						type: 'string',
+						default: '',
+						placeholder: 'toonLegend',
+						description: '**Field name** for the key aliases (alias → key), e.g. for a system prompt.<br/>' +
+							'• The TOON output then has no `_legend` key<br/>' +
+							'• Leave empty to keep the legend in the output',
 					},
 					{
 						displayName: 'Length Markers',
@@ -100,6 +288,202 @@ export class ToonEncode implements INodeType {
 						default: false,
 						description: 'Whether to prefix lengths: `items[#3]` → **LLM safer**',
 					},
+					{
+						displayName: 'Partition Field',
+						name: 'partitionBy',
+						type: 'string',
+						default: '',
+						placeholder: 'type',
+						description: 'Field whose value names each part when partitioning, like `type` → `events.click`. Leave empty to name parts `shape1`, `shape2`, ...',
+					},
+					{
+						displayName: 'Partition Shapes',
+						name: 'partitionShapes',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to split arrays that mix record shapes into **one table per shape**.<br/>' +
+							'• e.g. `events.click[120]{...}` and `events.purchase[8]{...}`<br/>' +
+							'• An `_index` column keeps the original order',
+					},
+					{
+						displayName: 'Path Overrides',
+						name: 'overrides',
+						type: 'fixedCollection',
+						typeOptions: {
+							multipleValues: true,
+						},
+						placeholder: 'Add Override',
+						default: {},
+						description: '**Per-array settings**, e.g. tabs for `logs` only.<br/>' +
+							'• Later overrides win when several paths match',
+						options: [
+							{
+								name: 'override',
+								displayName: 'Override',
+								values: [
+									{
+										displayName: 'Array Delimiter',
+										name: 'delimiter',
+										type: 'options',
+										default: '',
+										options: [
+											{
+												name: 'Comma (`,`)',
+												value: ',',
+											},
+											{
+												name: 'Default',
+												value: '',
+											},
+											{
+												name: 'Pipe (`|`)',
+												value: '|',
+											},
+											{
+												name: 'Tab',
+												value: '\t',
+											},
+										],
+									},
+									{
+										displayName: 'Indent',
+										name: 'indent',
+										type: 'number',
+										default: 0,
+										typeOptions: {
+											minValue: 0,
+											maxValue: 10,
+										},
+										description: 'Spaces per level inside the array, a multiple of the document indent (0 = document indent)',
+									},
+									{
+										displayName: 'Layout',
+										name: 'layout',
+										type: 'options',
+										default: 'auto',
+										options: [
+											{
+												name: 'Auto',
+												value: 'auto',
+											},
+											{
+												name: 'Inline',
+												value: 'inline',
+											},
+											{
+												name: 'List',
+												value: 'list',
+											},
+											{
+												name: 'Tabular',
+												value: 'tabular',
+											},
+										],
+										description: 'Inline needs primitive items, Tabular objects with primitive values',
+									},
+									{
+										displayName: 'Length Markers',
+										name: 'lengthMarker',
+										type: 'options',
+										default: '',
+										options: [
+											{
+												name: 'Default',
+												value: '',
+											},
+											{
+												name: 'Off',
+												value: 'off',
+											},
+											{
+												name: 'On',
+												value: 'on',
+											},
+										],
+									},
+									{
+										displayName: 'Path',
+										name: 'path',
+										type: 'string',
+										default: '',
+										placeholder: 'logs',
+										description: 'Array path, same patterns as Include Paths',
+									},
+								],
+							},
+						],
+					},
+					{
+						displayName: 'Prune Empty Values',
+						name: 'prune',
+						type: 'multiOptions',
+						default: [],
+						options: [
+							{
+								name: 'Empty Array (`[]`)',
+								value: 'emptyArray',
+							},
+							{
+								name: 'Empty Object (`{}`)',
+								value: 'emptyObject',
+							},
+							{
+								name: 'Empty String (`""`)',
+								value: 'emptyString',
+							},
+							{
+								name: 'Null',
+								value: 'null',
+							},
+						],
+						description: '**Drop fields** holding these values to save tokens.<br/>' +
+							'• Array items are kept<br/>' +
+							'• Can make more arrays tabular',
+					},
+					{
+						displayName: 'Prune Recursively',
+						name: 'pruneRecursive',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to also drop objects and arrays that are **empty after pruning** their fields',
+					},
+					{
+						displayName: 'Source Map Field',
+						name: 'sourceMapField',
+						type: 'string',
+						default: '',
+						placeholder: 'toonSourceMap',
+						description: '**Field name** for a map from TOON lines to JSON Pointers.<br/>' +
+							'• Tabular rows also list the column range of each cell<br/>' +
+							'• Leave empty to skip',
+					},
+					{
+						displayName: 'Value Dictionary',
+						name: 'dictionary',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to replace **long strings repeated in a table column** with codes like `~1`.<br/>' +
+							'• The strings are listed once in a `_dictionary` key<br/>' +
+							'• Strings need 16+ characters and 3+ occurrences',
+					},
+					{
+						displayName: 'Verify Round-Trip',
+						name: 'verify',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to **decode the result** and stop if it differs from the input.<br/>' +
+							'• The error names the first differing path',
+					},
+					{
+						displayName: 'Warnings Field',
+						name: 'warningsField',
+						type: 'string',
+						default: '',
+						placeholder: 'toonWarnings',
+						description: '**Field name** for a list of lossy conversions.<br/>' +
+							'• Each entry has `path`, `originalType` and `conversion`<br/>' +
+							'• Leave empty to skip',
+					},
 				],
 			},
 		],
@@ -113,37 +497,174 @@ export class ToonEncode implements INodeType {
 			// Get params
 			const data = this.getNodeParameter('data', i) as unknown;
 			const outputField = this.getNodeParameter('outputField', i) as string;
+			const mode = this.getNodeParameter('mode', i, 'encode') as 'encode' | 'analyze';
 
 			const optionsData = this.getNodeParameter('options', i, {}) as {
 				indent?: number;
-				delimiter?: ',' | '\t' | '|';
+				delimiter?: ',' | '\t' | '|' | 'auto' | 'auto-array';
 				lengthMarker?: boolean;
+				include?: string[];
+				exclude?: string[];
+				prune?: Array<'null' | 'emptyString' | 'emptyArray' | 'emptyObject'>;
+				pruneRecursive?: boolean;
+				sourceMapField?: string;
+				verify?: boolean;
+				hoistConstants?: boolean;
+				partitionShapes?: boolean;
+				partitionBy?: string;
+				aliasLongKeys?: boolean;
+				keyAliases?: {
+					alias?: Array<{ alias: string; key: string }>;
+				};
+				legendField?: string;
+				dictionary?: boolean;
+				groupBy?: {
+					group?: Array<{ path: string; fields: string; childKey: string }>;
+				};
+				overrides?: {
+					override?: Array<{
+						path: string;
+						delimiter: '' | ',' | '\t' | '|';
+						indent: number;
+						layout: PathOverride['layout'];
+						lengthMarker: '' | 'on' | 'off';
+					}>;
+				};
+				warningsField?: string;
+				failOnWarnings?: boolean;
 			};
 
+			// One override per path, since later entries would silently replace earlier ones
+			const overrides = (optionsData.overrides?.override ?? []).filter(({ path }) => path);
+			const duplicate = overrides.find(({ path }, index) => overrides.findIndex((other) => other.path === path) !== index);
+			if (duplicate) {
+				throw new NodeOperationError(this.getNode(), `Path "${duplicate.path}" has more than one override`, {
+					itemIndex: i,
+				});
+			}
+
 			// Build EncodeOptions
 			const options: EncodeOptions = {
 				indent: optionsData.indent ?? 2,
-				delimiter: optionsData.delimiter ?? ',',
+				delimiter: optionsData.delimiter === 'auto-array' ? 'auto' : optionsData.delimiter ?? ',',
+				autoDelimiter: optionsData.delimiter === 'auto-array' ? 'array' : 'document',
 				lengthMarker: optionsData.lengthMarker ? '#' : false,
+				// Blank rows would name the root, which include and exclude reject
+				include: optionsData.include?.filter(Boolean),
+				exclude: optionsData.exclude?.filter(Boolean),
+				prune: optionsData.prune?.length
+					? {
+							...Object.fromEntries(optionsData.prune.map((kind) => [kind, true])),
+							recursive: optionsData.pruneRecursive ?? false,
+						}
+					: undefined,
+				overrides: Object.fromEntries(
+					overrides.map(({ path, delimiter, indent, layout, lengthMarker }): [string, PathOverride] => [
+						path,
+						{
+							delimiter: delimiter || undefined,
+							indent: indent || undefined,
+							layout,
+							lengthMarker: OVERRIDE_LENGTH_MARKERS[lengthMarker],
+						},
+					]),
+				),
+				verify: optionsData.verify ? 'throw' : undefined,
+				hoistConstants: optionsData.hoistConstants ?? false,
+				partitionShapes: optionsData.partitionShapes ? { by: optionsData.partitionBy || undefined } : false,
+				aliasKeys:
+					optionsData.aliasLongKeys || optionsData.keyAliases?.alias?.length
+						? {
+								aliases: Object.fromEntries(
+									(optionsData.keyAliases?.alias ?? [])
+										.filter(({ key }) => key)
+										.map(({ key, alias }) => [key, alias]),
+								),
+								auto: optionsData.aliasLongKeys ?? false,
+								legend: optionsData.legendField ? 'separate' : 'inline',
+							}
+						: false,
+				dictionary: optionsData.dictionary ?? false,
+				groupBy: Object.fromEntries(
+					(optionsData.groupBy?.group ?? []).map(({ path, fields, childKey }): [string, GroupBy] => [
+						path,
+						{
+							fields: fields
+								.split(',')
+								.map((field) => field.trim())
+								.filter(Boolean),
+							childKey: childKey || undefined,
+						},
+					]),
+				),
 			};
 
 			try {
-				// Encode
-				const toon = encode(data, options);
+				let fields: IDataObject;
+				if (mode === 'analyze') {
+					const { jsonTokens, toonTokens, savings, arrays } = analyze(data, options);
+					fields = {
+						[outputField]: { jsonTokens, toonTokens, savings, arrays: arrays.map((array) => ({ ...array })) },
+					};
+				}
+				else {
+					// Encode, collecting warnings, the source map and the legend only when they are used
+					const { toon, warnings, sourceMap, legend }: EncodeReport =
+						optionsData.warningsField ||
+						optionsData.failOnWarnings ||
+						optionsData.sourceMapField ||
+						optionsData.legendField
+							? encodeWithReport(data, { ...options, sourceMap: !!optionsData.sourceMapField })
+							: { toon: encode(data, options), warnings: [] };
 
-				// Output: original + new field
+					if (optionsData.failOnWarnings && warnings.length > 0) {
+						const [first] = warnings;
+						const more = warnings.length > 1 ? ` (and ${warnings.length - 1} more)` : '';
+						throw new NodeOperationError(
+							this.getNode(),
+							`Lossy conversion: ${first.originalType} → ${first.conversion}${more}`,
+							{ itemIndex: i, description: `Path: ${first.path || '(root)'}` },
+						);
+					}
+
+					fields = {
+						[outputField]: toon,
+						...(optionsData.warningsField
+							? {
+									[optionsData.warningsField]: warnings.map(({ path, originalType, conversion }) => ({
+										path,
+										originalType,
+										conversion,
+									})),
+								}
+							: {}),
+						...(optionsData.sourceMapField && sourceMap
+							? {
+									[optionsData.sourceMapField]: sourceMap.map(({ line, pointer, cells }) =>
+										cells
+											? { line, pointer, cells: cells.map(({ start, end, pointer }) => ({ start, end, pointer })) }
+											: { line, pointer },
+									),
+								}
+							: {}),
+						...(optionsData.legendField && legend ? { [optionsData.legendField]: { ...legend } } : {}),
+					};
+				}
+
+				// Output: original + new field(s)
 				const newItem: INodeExecutionData = {
 					json: {
 						...items[i].json,
-						[outputField]: toon,
+						...fields,
 					},
 				};
 
 				returnData.push(newItem);
 			} catch (error) {
-				// LLM-safe error
+				// LLM-safe error, pointing at the offending value when known
 				throw new NodeOperationError(this.getNode(), error, {
 					itemIndex: i,
+					description: error instanceof EncodeError ? `Path: ${error.path || '(root)'}` : undefined,
 				});
 			}
 		}
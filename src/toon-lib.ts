@@ -15,50 +15,1198 @@ type Depth = number;
 
 export interface EncodeOptions {
 	indent?: number;
+	/** `auto` picks the delimiter that leaves the fewest string values quoted */
+	delimiter?: ',' | '\t' | '|' | 'auto';
+	/** With `delimiter: 'auto'`, decide once for the document (default) or separately for each array */
+	autoDelimiter?: 'document' | 'array';
+	lengthMarker?: '#' | false;
+	/**
+	 * Collapse chains of single-key objects into dotted paths (`a.b.c: 1`).
+	 * In 'safe' mode literal dotted keys are quoted so they stay distinguishable.
+	 */
+	keyFolding?: 'off' | 'safe';
+	/** Maximum number of segments per folded key (default: unlimited) */
+	flattenDepth?: number;
+	/**
+	 * Encode arrays of objects with differing keys as tables, using the union of keys
+	 * as header and `null` for missing cells. Arrays whose rows hold `null` values of their
+	 * own (uniform ones too), or list their keys in a different order, stay lists so
+	 * decoding restores them.
+	 */
+	sparseTabular?: boolean;
+	/** Minimum share of filled cells (0-1) for a sparse table (default: 0.8) */
+	sparseThreshold?: number;
+	/** Flatten nested objects in rows into dotted columns (`address.city`) to keep them tabular */
+	flattenColumns?: boolean;
+	/**
+	 * Deterministic output: object keys of the data (before keys like `_constants` are added)
+	 * and tabular headers are sorted, strings and keys are NFC-normalized and numbers written
+	 * as plain decimals without trailing zeros (rounded by `numberFormat` if set), so
+	 * deep-equal inputs always encode to identical TOON. Keys that only differ in their
+	 * Unicode normalization throw an EncodeError.
+	 */
+	canonical?: boolean;
+	/** How numbers are written (precision, exponent notation, trailing zeros) */
+	numberFormat?: NumberFormat;
+	/** Number formats for individual tabular columns, keyed by field name; they refine `numberFormat` */
+	columnNumberFormats?: Record<string, NumberFormat>;
+	/**
+	 * Estimated token budget (about 4 characters per token). Long arrays are sampled and
+	 * long strings truncated until the output fits; see `encodeWithinBudget` for the report.
+	 */
+	maxTokens?: number;
+	/** Which items of a shrunk array are kept (default: 'head') */
+	strategy?: BudgetStrategy;
+	/** Describe shrunk arrays in an `_omitted` key next to them (default: true) */
+	markOmissions?: boolean;
+	/**
+	 * Keep only these paths (and what is below them). Patterns use `.` between keys,
+	 * `*` for any key, `[*]` or `[0]` for array items and `**` for any depth:
+	 * `users[*].email`, `**._links`. The empty pattern, which names the root in
+	 * `groupBy` and `overrides`, is rejected here.
+	 */
+	include?: string[];
+	/** Drop these paths; same pattern syntax as `include`, applied after it */
+	exclude?: string[];
+	/**
+	 * Called for every value before it is normalized, like the replacer of `JSON.stringify`:
+	 * values with a `toJSON()` method (such as Dates) are passed as its result, binary
+	 * values as they are. `this` is the containing object or array, the root has key `''`,
+	 * and the return value is encoded instead. Returning `undefined` omits object properties
+	 * and turns array items into `null`. `path` is the JSON path of the value, e.g. `users[0].email`.
+	 */
+	replacer?: Replacer;
+	/** Forces the array at `path` into list or tabular layout; `undefined` keeps the automatic choice */
+	visitArray?: (path: string, value: readonly unknown[]) => ArrayLayout | undefined;
+	/**
+	 * What to do with values that have no JSON form after `toJSON()`, known types and own
+	 * properties were tried (functions, symbols, objects without enumerable properties):
+	 * write `null` (default), write `String(value)`, or throw with the value's path
+	 */
+	unsupportedValues?: 'null' | 'string' | 'throw';
+	/**
+	 * How Buffers, `Uint8Array`, `ArrayBuffer` and `DataView` values are written (default: 'base64').
+	 * Other typed arrays such as `Float32Array` become arrays of numbers.
+	 */
+	binaryEncoding?: 'base64' | 'hex';
+	/** Prefix binary strings with `b64:` or `hex:`, so `decode` can restore them with `binary: true` */
+	binaryPrefix?: boolean;
+	/**
+	 * Deepest allowed nesting of objects and arrays: the root container is at depth 0 and its
+	 * children at depth 1, so `maxDepth: 2` keeps containers at depth 2 (default: unlimited)
+	 */
+	maxDepth?: number;
+	/** What to do with a reference back to a containing object (default: 'throw') */
+	onCircular?: SafeguardAction;
+	/** What to do with objects and arrays nested deeper than `maxDepth` (default: 'throw') */
+	onMaxDepth?: SafeguardAction;
+	/**
+	 * Drop object fields holding `null`, `""`, `[]` or `{}` before tabular detection, so rows
+	 * that only differed in empty fields can share a header. Array items are never removed.
+	 */
+	prune?: PruneOptions;
+	/**
+	 * Settings for individual arrays, keyed by path pattern (same syntax as `include`,
+	 * `''` for a root array). They apply to the matching array and what is nested in it;
+	 * when several patterns match, later entries win.
+	 */
+	overrides?: Record<string, PathOverride>;
+	/**
+	 * Decode the output and compare it with the data after projection, pruning, grouping
+	 * and canonicalization, key order included. Partitions, constants, dictionary codes
+	 * and aliases are decoded with the matching options; items or characters cut to fit
+	 * `maxTokens`, and numbers rounded by `numberFormat` or `columnNumberFormats`, show up
+	 * as differences. `throw` raises an EncodeError at the first differing path; `report`
+	 * adds the result to `encodeWithReport` instead.
+	 */
+	verify?: 'throw' | 'report';
+	/**
+	 * Turn arrays of rows into arrays of groups, keyed by path pattern (`''` for a root array).
+	 * Rows with equal values in `fields` share a group holding those values once, and the
+	 * rest of each row goes into the group's nested table.
+	 */
+	groupBy?: Record<string, GroupBy>;
+	/**
+	 * Move columns holding the same value in every row of a table into a `_constants`
+	 * key next to the array, keyed by the array's key. `decode` restores them with
+	 * `injectConstants: true`. Unless the hoisted columns came last, an `_order` list
+	 * records the column order for that. Root arrays and arrays inside arrays have no place for it.
+	 */
+	hoistConstants?: boolean | HoistConstantsOptions;
+	/**
+	 * Split arrays of objects that are not tabular into one table per shape, written as
+	 * dotted sibling keys: `events.click[120]{...}`, `events.purchase[8]{...}`. Only done
+	 * when every part is tabular, and never for rows with an `_index` field of their own;
+	 * root arrays and arrays inside arrays stay as they are.
+	 */
+	partitionShapes?: boolean | PartitionOptions;
+	/**
+	 * Replace long keys with short aliases (`customerAccountIdentifier` → `cai`), in objects
+	 * and tabular headers alike. The legend (alias → key) goes into a `_legend` key at the
+	 * root, or into `encodeWithReport`'s `legend`; `decode` restores the keys with `legend`.
+	 */
+	aliasKeys?: boolean | AliasKeysOptions;
+	/**
+	 * Replace long strings that repeat within a table column with codes (`~1`, `~2`, ...)
+	 * and list them in a `_dictionary` key next to the array, as one `{code,value}` table
+	 * per column. `decode` expands them with `expandDictionary: true`. Root arrays and
+	 * arrays inside arrays have no place for it.
+	 */
+	dictionary?: boolean | DictionaryOptions;
+}
+
+export interface DictionaryOptions {
+	/** Shortest string that gets a code (default: 16) */
+	minLength?: number;
+	/** Fewest occurrences in a column for a string to get a code (default: 3) */
+	minCount?: number;
+}
+
+export interface AliasKeysOptions {
+	/** Aliases of your own, keyed by the original key */
+	aliases?: Record<string, string>;
+	/** Also alias other long keys, by their initials (default: true) */
+	auto?: boolean;
+	/** Shortest key that is aliased automatically (default: 10) */
+	minLength?: number;
+	/**
+	 * `inline` writes the legend into a `_legend` key, so only object roots are aliased;
+	 * `separate` leaves it out of the output, e.g. for a system prompt, and is only accepted
+	 * by `encodeWithReport` and `analyze`, since other functions have no way to return it
+	 * (default: 'inline')
+	 */
+	legend?: 'inline' | 'separate';
+}
+
+export interface PartitionOptions {
+	/**
+	 * Field that names the parts, like `type`; its values must be identifiers. Without it,
+	 * rows are split by their set of keys into `shape1`, `shape2`, ...
+	 */
+	by?: string;
+	/** Add an `_index` column with each row's position, so `decode` can merge the parts (default: true) */
+	index?: boolean;
+}
+
+export interface HoistConstantsOptions {
+	/** Smallest table whose constant columns are hoisted (default: 3) */
+	minRows?: number;
+	/** Columns that always stay in the table */
+	exclude?: string[];
+}
+
+export interface GroupBy {
+	fields: string[];
+	/** Key of the nested array with the remaining columns (default: 'items') */
+	childKey?: string;
+}
+
+export interface PathOverride {
 	delimiter?: ',' | '\t' | '|';
 	lengthMarker?: '#' | false;
+	/** `auto` keeps the automatic choice (or the one from `visitArray`) */
+	layout?: 'auto' | ArrayLayout;
+	/**
+	 * Spaces per level for the lines inside the array. Must be a positive multiple of
+	 * the document `indent`, so every line stays on a level the decoder can read.
+	 */
+	indent?: number;
+}
+
+export interface PruneOptions {
+	null?: boolean;
+	emptyString?: boolean;
+	emptyArray?: boolean;
+	emptyObject?: boolean;
+	/** Also drop fields that only became empty because their own fields were pruned */
+	recursive?: boolean;
+}
+
+/** `throw` an EncodeError, write a `"[Circular]"`/`"[MaxDepth]"` marker, or `drop` the value */
+export type SafeguardAction = 'throw' | 'marker' | 'drop';
+
+/** Encoding failure tied to a value in the input */
+export class EncodeError extends Error {
+	constructor(
+		message: string,
+		/** JSON path of the value, e.g. `users[0].manager`; empty for the root */
+		readonly path: string,
+	) {
+		super(message);
+		this.name = 'EncodeError';
+	}
+}
+
+export type Replacer = (this: unknown, key: string, value: unknown, path: string) => unknown;
+
+/**
+ * `list` writes one `- ` item per element, `tabular` one row per object (missing cells are `null`)
+ * and `inline` all items on the header line, which only primitive items allow
+ */
+export type ArrayLayout = 'list' | 'tabular' | 'inline';
+
+/** `head` keeps the first items, `headTail` the first and last ones, `sample` evenly spaced ones */
+export type BudgetStrategy = 'head' | 'headTail' | 'sample';
+
+export interface NumberFormat {
+	/** Round to at most this many digits after the decimal point, an integer from 0 to 100 */
+	maxFractionDigits?: number;
+	/** Always write plain decimals: `1e21` → `1000000000000000000000`, `1e-7` → `0.0000001` */
+	plainDecimal?: boolean;
+	/** Drop trailing zeros left by rounding: `0.30` → `0.3` (default: true) */
+	trimTrailingZeros?: boolean;
 }
 
 type ResolvedOptions = {
 	indent: number;
 	delimiter: string;
+	autoDelimiter?: 'document' | 'array';
 	lengthMarker: '#' | false;
+	keyFolding: 'off' | 'safe';
+	flattenDepth: number;
+	sparseTabular: boolean;
+	sparseThreshold: number;
+	flattenColumns: boolean;
+	canonical: boolean;
+	numberFormat?: NumberFormat;
+	columnNumberFormats: Record<string, NumberFormat>;
+	maxTokens?: number;
+	strategy: BudgetStrategy;
+	markOmissions: boolean;
+	projection?: Projection;
+	replacer?: Replacer;
+	visitArray?: (path: string, value: readonly unknown[]) => ArrayLayout | undefined;
+	unsupportedValues: 'null' | 'string' | 'throw';
+	binaryEncoding: 'base64' | 'hex';
+	binaryPrefix: boolean;
+	maxDepth: number;
+	onCircular: SafeguardAction;
+	onMaxDepth: SafeguardAction;
+	prune?: PruneOptions;
+	overrides: [PathPattern, PathOverride][];
+	verify?: 'throw' | 'report';
+	groupBy: [PathPattern, GroupBy][];
+	hoistConstants?: Required<HoistConstantsOptions>;
+	partitionShapes?: PartitionOptions;
+	aliasKeys?: Required<AliasKeysOptions>;
+	dictionary?: Required<DictionaryOptions>;
+	/** Collects the layout chosen for each array, for analyze() */
+	layoutLog?: LayoutRecord[];
+	/** Collects where each container of the encoded value came from, for source maps */
+	origins?: Origins;
+};
+
+type LayoutRecord = {
+	path: string;
+	value: JsonArray;
+	layout: ArrayLayout;
+	reason: string;
+	/** The options the array was encoded with */
+	options: ResolvedOptions;
+};
+
+/** One step of a JSON path: an object key or an array index */
+type PathSegment = string | number;
+
+/**
+ * The input path of a container built from the input. Children whose key or index
+ * differs from the input (aliased keys, sampled items) list their input path.
+ */
+type Origin = { path: string; children?: Map<PathSegment, string> };
+
+type Origins = WeakMap<JsonObject | JsonArray, Origin>;
+
+type PatternToken =
+	| { kind: 'key'; name: string }
+	| { kind: 'index'; index: number }
+	| { kind: 'anyKey' }
+	| { kind: 'anyIndex' }
+	| { kind: 'deep' };
+
+type PathPattern = PatternToken[];
+
+type Projection = {
+	include: PathPattern[];
+	exclude: PathPattern[];
+};
+
+/**
+ * Where normalization stands in each projection pattern, as sets of pattern positions.
+ * `include` is dropped once an include pattern matched, since everything below is kept.
+ */
+type ProjectionState = {
+	projection: Projection;
+	include?: number[][];
+	exclude: number[][];
+};
+
+/**
+ * Where normalization stands. The path is only built when needed (see scopePath),
+ * so large inputs don't pay for one string per value.
+ */
+type NormalizeScope = {
+	parent?: NormalizeScope;
+	segment?: PathSegment;
+	path?: string;
+	depth: number;
+	/** Containers currently being normalized, with the scope they were entered in */
+	ancestors: Map<object, NormalizeScope>;
+	projection?: ProjectionState;
+	options: ResolvedOptions;
+	/** Collects lossy conversions when a report was requested */
+	warnings?: EncodeWarning[];
 };
 
 const LIST_ITEM_MARKER = '-';
 const LIST_ITEM_PREFIX = '- ';
 const COMMA = ',';
 const DEFAULT_DELIMITER = ',';
+// Candidates for automatic selection; earlier ones win ties, so tabs are only used when pipes occur
+const DELIMITERS = [',', '|', '\t'];
 const NULL_LITERAL = 'null';
 const TRUE_LITERAL = 'true';
 const FALSE_LITERAL = 'false';
 const BACKSLASH = '\\';
 const DOUBLE_QUOTE = '"';
-
-function normalizeValue(value: unknown): JsonValue {
+const BASE64_PREFIX = 'b64:';
+const HEX_PREFIX = 'hex:';
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const CIRCULAR_MARKER = '[Circular]';
+const FORCED_LAYOUT_REASON = 'forced by overrides or visitArray';
+const MAX_DEPTH_MARKER = '[MaxDepth]';
+const CONSTANTS_KEY = '_constants';
+const CONSTANTS_ORDER_KEY = '_order';
+const PARTITION_INDEX_KEY = '_index';
+const LEGEND_KEY = '_legend';
+const DICTIONARY_KEY = '_dictionary';
+const DICTIONARY_CODE_PREFIX = '~';
+
+// Returns undefined when a safeguard drops the value
+function normalizeValue(value: unknown, scope: NormalizeScope): JsonValue | undefined {
 	if (value === null) return null;
 	if (typeof value === 'string' || typeof value === 'boolean') return value;
 	if (typeof value === 'number') {
-		if (Object.is(value, -0)) return 0;
-		if (!Number.isFinite(value)) return null;
+		if (Object.is(value, -0)) return warn(scope, '-0', 0);
+		if (!Number.isFinite(value)) return warn(scope, String(value), null);
 		return value;
 	}
 	if (typeof value === 'bigint') {
 		if (value >= Number.MIN_SAFE_INTEGER && value <= Number.MAX_SAFE_INTEGER) return Number(value);
-		return value.toString();
+		return warn(scope, 'bigint', value.toString());
 	}
 	if (value instanceof Date) return value.toISOString();
-	if (Array.isArray(value)) return value.map(normalizeValue);
-	if (value instanceof Set) return Array.from(value).map(normalizeValue);
-	if (value instanceof Map)
-		return Object.fromEntries(Array.from(value, ([k, v]) => [String(k), normalizeValue(v)]));
-	if (isPlainObject(value)) {
-		const result: JsonObject = {};
+	if (Array.isArray(value)) return normalizeArray(value, value, scope);
+	if (value instanceof Set) {
+		reportConversion(scope, 'Set', 'array');
+		return normalizeArray(Array.from(value), value, scope);
+	}
+	if (value instanceof Map) {
+		reportConversion(scope, 'Map', 'object');
+		return normalizeEntries(Array.from(value, ([k, v]) => [String(k), v]), value, scope);
+	}
+	// As in JSON.stringify, toJSON() wins over own properties, plain objects included
+	if (isPlainObject(value) && typeof (value as { toJSON?: unknown }).toJSON !== 'function') {
+		const entries: [string, unknown][] = [];
 		for (const key in value)
-			if (Object.prototype.hasOwnProperty.call(value, key)) result[key] = normalizeValue((value as Record<string, unknown>)[key]);
-		return result;
+			if (Object.prototype.hasOwnProperty.call(value, key)) entries.push([key, (value as Record<string, unknown>)[key]]);
+		return normalizeEntries(entries, value as object, scope);
+	}
+	return normalizeOtherValue(value, scope);
+}
+
+// Objects without a JSON literal: known library and built-in types, then toJSON(), then own properties
+function normalizeOtherValue(value: unknown, scope: NormalizeScope): JsonValue | undefined {
+	if (value === undefined) return warn(scope, 'undefined', null);
+	if (typeof value === 'object' && value !== null) {
+		const bytes = toBytes(value);
+		if (bytes) return encodeBinary(bytes, scope.options);
+		if (ArrayBuffer.isView(value)) {
+			return normalizeArray(Array.from(value as unknown as ArrayLike<number | bigint>), value, scope);
+		}
+
+		const object = value as Record<string, unknown>;
+		// Luxon DateTime, Duration and Interval, as produced by n8n expressions like $now
+		if (object.isLuxonDateTime || object.isLuxonDuration || object.isLuxonInterval) {
+			return normalizeValue((value as { toISO(): string | null }).toISO(), scope);
+		}
+		if (value instanceof RegExp) return value.toString();
+		if (Object.prototype.toString.call(value) === '[object URL]') return (value as { href: string }).href;
+		if (typeof object.toJSON === 'function') {
+			const json = (value as { toJSON(): unknown }).toJSON();
+			if (json !== value) return normalizeValue(json, scope);
+		}
+		// Class instances keep their enumerable own properties
+		const keys = Object.keys(value);
+		if (keys.length > 0) {
+			reportConversion(scope, describeValueType(value), 'object');
+			return normalizeEntries(keys.map((key) => [key, object[key]]), value, scope);
+		}
+	}
+
+	const mode = scope.options.unsupportedValues;
+	if (mode === 'string') return warn(scope, describeValueType(value), String(value));
+	if (mode === 'throw') {
+		const path = scopePath(scope);
+		throw new EncodeError(`Cannot encode ${describeValueType(value)} at ${describePath(path)}`, path);
+	}
+	return warn(scope, describeValueType(value), null);
+}
+
+// Records a lossy conversion of the value at `scope` and returns its replacement
+function warn<T extends JsonValue | undefined>(
+	scope: NormalizeScope,
+	originalType: string,
+	replacement: T,
+	conversion = replacement === undefined ? 'dropped' : typeof replacement === 'string' ? 'string' : String(replacement),
+): T {
+	reportConversion(scope, originalType, conversion);
+	return replacement;
+}
+
+function reportConversion(scope: NormalizeScope, originalType: string, conversion: string): void {
+	scope.warnings?.push({ path: scopePath(scope), originalType, conversion });
+}
+
+// Byte views of binary values; other typed arrays hold numbers and are not binary
+function toBytes(value: object): Uint8Array | undefined {
+	if (value instanceof ArrayBuffer) return new Uint8Array(value);
+	// Node's Buffer is a Uint8Array
+	if (value instanceof Uint8Array || value instanceof Uint8ClampedArray || value instanceof DataView) {
+		return new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+	}
+	return undefined;
+}
+
+function encodeBinary(bytes: Uint8Array, options: ResolvedOptions): string {
+	if (options.binaryEncoding === 'hex') {
+		const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+		return options.binaryPrefix ? `${HEX_PREFIX}${hex}` : hex;
+	}
+	const base64 = toBase64(bytes);
+	return options.binaryPrefix ? `${BASE64_PREFIX}${base64}` : base64;
+}
+
+function toBase64(bytes: Uint8Array): string {
+	let result = '';
+	for (let i = 0; i < bytes.length; i += 3) {
+		const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+		result += BASE64_ALPHABET[chunk >> 18] + BASE64_ALPHABET[(chunk >> 12) & 63];
+		result += i + 1 < bytes.length ? BASE64_ALPHABET[(chunk >> 6) & 63] : '=';
+		result += i + 2 < bytes.length ? BASE64_ALPHABET[chunk & 63] : '=';
+	}
+	return result;
+}
+
+function fromBase64(text: string): Uint8Array | undefined {
+	if (text.length % 4 !== 0 || !/^[A-Za-z0-9+/]*={0,2}$/.test(text)) return undefined;
+	const padding = text.endsWith('==') ? 2 : text.endsWith('=') ? 1 : 0;
+	const bytes = new Uint8Array((text.length / 4) * 3 - padding);
+	let index = 0;
+	for (let i = 0; i < text.length; i += 4) {
+		let chunk = 0;
+		for (let j = 0; j < 4; j++) {
+			const char = text[i + j];
+			chunk = (chunk << 6) | (char === '=' ? 0 : BASE64_ALPHABET.indexOf(char));
+		}
+		for (const shift of [16, 8, 0]) {
+			if (index < bytes.length) bytes[index++] = (chunk >> shift) & 255;
+		}
+	}
+	return bytes;
+}
+
+function fromHex(text: string): Uint8Array | undefined {
+	if (text.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(text)) return undefined;
+	const bytes = new Uint8Array(text.length / 2);
+	for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(text.slice(i * 2, i * 2 + 2), 16);
+	return bytes;
+}
+
+function describeValueType(value: unknown): string {
+	if (typeof value !== 'object' || value === null) return typeof value;
+	return (value as { constructor?: { name?: string } }).constructor?.name || 'object';
+}
+
+function normalizeArray(items: unknown[], holder: object, scope: NormalizeScope): JsonValue | undefined {
+	const limited = limitContainer(holder, scope);
+	if (limited) return limited.value;
+
+	scope.ancestors.set(holder, scope);
+	const result: JsonArray = [];
+	const indexes: number[] = [];
+	items.forEach((item, index) => {
+		const child = normalizeChild(item, holder, index, scope);
+		if (child === undefined) return;
+		result.push(child);
+		indexes.push(index);
+	});
+	scope.ancestors.delete(holder);
+	if (scope.options.origins) {
+		const path = scopePath(scope);
+		// Dropped items shift the indexes of the ones after them
+		const children =
+			indexes.length < items.length ? new Map(indexes.map((index, i) => [i, appendPath(path, index)])) : undefined;
+		scope.options.origins.set(result, { path, children });
+	}
+	return result;
+}
+
+function normalizeEntries(entries: [string, unknown][], holder: object, scope: NormalizeScope): JsonValue | undefined {
+	const limited = limitContainer(holder, scope);
+	if (limited) return limited.value;
+
+	scope.ancestors.set(holder, scope);
+	const result: JsonObject = {};
+	for (const [key, item] of entries) {
+		const child = normalizeChild(item, holder, key, scope);
+		if (child !== undefined) result[key] = child;
+	}
+	scope.ancestors.delete(holder);
+	scope.options.origins?.set(result, { path: scopePath(scope) });
+	return result;
+}
+
+// The replacement for a container that closes a cycle or lies deeper than maxDepth, if it does
+function limitContainer(holder: object, scope: NormalizeScope): { value: JsonValue | undefined } | undefined {
+	const { options } = scope;
+	const target = scope.ancestors.get(holder);
+	if (target) {
+		if (options.onCircular === 'throw') {
+			const path = scopePath(scope);
+			throw new EncodeError(
+				`Circular reference at ${describePath(path)} points back to ${describePath(scopePath(target))}`,
+				path,
+			);
+		}
+		const marker = options.onCircular === 'marker' ? CIRCULAR_MARKER : undefined;
+		return { value: warn(scope, 'circular reference', marker, marker) };
+	}
+	if (scope.depth > options.maxDepth) {
+		if (options.onMaxDepth === 'throw') {
+			const path = scopePath(scope);
+			throw new EncodeError(`Maximum depth of ${options.maxDepth} exceeded at ${describePath(path)}`, path);
+		}
+		const marker = options.onMaxDepth === 'marker' ? MAX_DEPTH_MARKER : undefined;
+		return { value: warn(scope, describeValueType(holder), marker, marker) };
+	}
+	return undefined;
+}
+
+// Returns undefined when the projection, the replacer or a safeguard drops the child
+function normalizeChild(value: unknown, holder: object, segment: PathSegment, scope: NormalizeScope): JsonValue | undefined {
+	const projection = scope.projection && enterProjection(scope.projection, segment);
+	if (scope.projection && !projection) return undefined;
+
+	const { options } = scope;
+	// Scalars need no scope of their own unless the replacer or a warning wants their path
+	if (!options.replacer && !projection?.include && !scope.warnings && isJsonPrimitive(value)) {
+		return normalizeValue(value, scope);
+	}
+
+	const child: NormalizeScope = {
+		parent: scope,
+		segment,
+		depth: scope.depth + 1,
+		ancestors: scope.ancestors,
+		projection,
+		options,
+		warnings: scope.warnings,
+	};
+	const replaced = options.replacer
+		? applyReplacer(options.replacer, holder, String(segment), value, scopePath(child))
+		: value;
+	if (options.replacer && replaced === undefined) return typeof segment === 'number' ? null : undefined;
+
+	const result = normalizeValue(replaced, child);
+	// Containers only visited on the way to an include path are dropped when nothing inside matched
+	const onlyOnTheWay = projection?.include !== undefined;
+	if (onlyOnTheWay && !(isJsonArray(result) ? result.length : isJsonObject(result) && Object.keys(result).length)) {
+		return undefined;
+	}
+	return result;
+}
+
+// As in JSON.stringify, the replacer sees the result of toJSON(); binary values keep their bytes
+function applyReplacer(replacer: Replacer, holder: object, key: string, value: unknown, path: string): unknown {
+	const json =
+		typeof value === 'object' &&
+		value !== null &&
+		!toBytes(value) &&
+		typeof (value as { toJSON?: unknown }).toJSON === 'function'
+			? (value as { toJSON(key: string): unknown }).toJSON(key)
+			: value;
+	return replacer.call(holder, key, json, path);
+}
+
+function scopePath(scope: NormalizeScope): string {
+	if (scope.path === undefined) {
+		scope.path = scope.parent ? appendPath(scopePath(scope.parent), scope.segment as PathSegment) : '';
+	}
+	return scope.path;
+}
+
+function describePath(path: string): string {
+	return path ? `"${path}"` : 'the root';
+}
+
+/** Extends a JSON path: `users` + 0 → `users[0]`, + `email` → `users[0].email` */
+function appendPath(path: string, segment: PathSegment): string {
+	if (typeof segment === 'number') return `${path}[${segment}]`;
+	if (!isIdentifierSegment(segment)) return `${path}[${JSON.stringify(segment)}]`;
+	return path ? `${path}.${segment}` : segment;
+}
+
+function enterProjection(state: ProjectionState, segment: PathSegment): ProjectionState | undefined {
+	const { projection } = state;
+	const exclude = state.exclude.map((positions, i) => advancePattern(projection.exclude[i], positions, segment));
+	if (exclude.some((positions, i) => positions.includes(projection.exclude[i].length))) return undefined;
+	if (!state.include) return { projection, exclude };
+
+	const include = state.include.map((positions, i) => advancePattern(projection.include[i], positions, segment));
+	if (include.some((positions, i) => positions.includes(projection.include[i].length))) return { projection, exclude };
+	if (include.every((positions) => positions.length === 0)) return undefined;
+	return { projection, include, exclude };
+}
+
+function startProjection(projection: Projection): ProjectionState {
+	const start = (pattern: PathPattern) => closePatternPositions(pattern, [0]);
+	return {
+		projection,
+		include: projection.include.length ? projection.include.map(start) : undefined,
+		exclude: projection.exclude.map(start),
+	};
+}
+
+/**
+ * Parses a path pattern like `users[*].email` or `**._links` into tokens:
+ * keys separated by `.`, `*` for any key, `[*]`/`[n]` for array items, `**` for any depth.
+ */
+function parsePathPattern(pattern: string): PathPattern {
+	const tokens: PathPattern = [];
+	// The root itself
+	if (pattern === '') return tokens;
+	for (const part of pattern.split('.')) {
+		const match = /^([^[\]]*)((?:\[(?:\*|\d+)\])*)$/.exec(part);
+		if (!match || (!match[1] && !match[2])) {
+			throw new Error(`Invalid path pattern "${pattern}"`);
+		}
+		const [, name, brackets] = match;
+		if (name === '**') tokens.push({ kind: 'deep' });
+		else if (name === '*') tokens.push({ kind: 'anyKey' });
+		else if (name) tokens.push({ kind: 'key', name });
+		for (const [, index] of brackets.matchAll(/\[(\*|\d+)\]/g)) {
+			tokens.push(index === '*' ? { kind: 'anyIndex' } : { kind: 'index', index: Number(index) });
+		}
+	}
+	return tokens;
+}
+
+// Keeping or dropping the root itself is not a projection
+function parseProjectionPattern(pattern: string): PathPattern {
+	if (pattern === '') throw new Error('Invalid path pattern "": include and exclude patterns cannot name the root');
+	return parsePathPattern(pattern);
+}
+
+function resolvePathOverride(pattern: string, override: PathOverride, indent: number): [PathPattern, PathOverride] {
+	if (override.indent !== undefined) {
+		const valid = indent === 0 ? override.indent === 0 : override.indent > 0 && override.indent % indent === 0;
+		if (!valid) {
+			throw new Error(`Indent ${override.indent} for path "${pattern}" is not a multiple of the document indent ${indent}`);
+		}
+	}
+	return [parsePathPattern(pattern), override];
+}
+
+// Moves every position one path segment forward; an empty result means the pattern can no longer match
+function advancePattern(pattern: PathPattern, positions: number[], segment: PathSegment): number[] {
+	const next: number[] = [];
+	for (const position of positions) {
+		const token = pattern[position];
+		if (!token) continue;
+		if (token.kind === 'deep') next.push(position);
+		else if (matchesPatternToken(token, segment)) next.push(position + 1);
+	}
+	return closePatternPositions(pattern, next);
+}
+
+// `**` may also match zero segments, so positions in front of it include the one behind it
+function closePatternPositions(pattern: PathPattern, positions: number[]): number[] {
+	const closed = new Set(positions);
+	for (const position of closed) {
+		if (pattern[position]?.kind === 'deep') closed.add(position + 1);
+	}
+	return Array.from(closed);
+}
+
+function matchesPatternToken(token: PatternToken, segment: PathSegment): boolean {
+	switch (token.kind) {
+		case 'key':
+			return segment === token.name;
+		case 'index':
+			return segment === token.index;
+		case 'anyKey':
+			return typeof segment === 'string';
+		case 'anyIndex':
+			return typeof segment === 'number';
+		default:
+			return true;
+	}
+}
+
+function matchesPathPattern(pattern: PathPattern, segments: PathSegment[]): boolean {
+	let positions = closePatternPositions(pattern, [0]);
+	for (const segment of segments) {
+		positions = advancePattern(pattern, positions, segment);
+		if (positions.length === 0) return false;
+	}
+	return positions.includes(pattern.length);
+}
+
+/** Splits a path built by `appendPath` back into its segments */
+function splitPath(path: string): PathSegment[] {
+	const segments: PathSegment[] = [];
+	for (const [, key, index, quoted] of path.matchAll(/\.?([A-Z_]\w*)|\[(\d+)\]|\[("(?:[^"\\]|\\.)*")\]/gi)) {
+		segments.push(key ?? (index !== undefined ? Number(index) : (JSON.parse(quoted) as string)));
+	}
+	return segments;
+}
+
+/** JSON Pointer (RFC 6901) for a path built by `appendPath`: `users[0].email` → `/users/0/email` */
+function toJsonPointer(path: string): string {
+	return splitPath(path)
+		.map((segment) => `/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`)
+		.join('');
+}
+
+// Input path of the child at `segment` of a container from `origin`
+function childOrigin(origin: Origin, segment: PathSegment): string {
+	return origin.children?.get(segment) ?? appendPath(origin.path, segment);
+}
+
+/**
+ * Records that `to` was built from `from`. `sourceOf` gives the segment of `from` each
+ * segment of `to` was taken from, or undefined for values the encoder added; without it
+ * the segments are the same.
+ */
+function carryOrigin<T extends JsonValue>(
+	origins: Origins | undefined,
+	from: JsonValue,
+	to: T,
+	sourceOf?: (segment: PathSegment) => PathSegment | undefined,
+): T {
+	const origin = origins && (isJsonArray(from) || isJsonObject(from)) ? origins.get(from) : undefined;
+	if (!origin || !(isJsonArray(to) || isJsonObject(to))) return to;
+	if (!sourceOf) {
+		(origins as Origins).set(to, origin);
+		return to;
+	}
+	const children = new Map<PathSegment, string>();
+	const segments: PathSegment[] = isJsonArray(to) ? to.map((_, index) => index) : Object.keys(to);
+	for (const segment of segments) {
+		const source = sourceOf(segment);
+		children.set(segment, source === undefined ? origin.path : childOrigin(origin, source));
+	}
+	(origins as Origins).set(to, { path: origin.path, children });
+	return to;
+}
+
+/**
+ * Input path of every value in `value`, keyed by its path in `value`. Containers the
+ * encoder added (`_constants`, `_legend`, ...) and what is in them map to the container
+ * they were added to.
+ */
+function mapInputPaths(value: JsonValue, origins: Origins): Map<string, string> {
+	const paths = new Map<string, string>();
+	const visit = (node: JsonValue, path: string, source: string) => {
+		paths.set(path, source);
+		if (!isJsonArray(node) && !isJsonObject(node)) return;
+		const origin = origins.get(node);
+		const entries: [PathSegment, JsonValue][] = isJsonArray(node) ? [...node.entries()] : Object.entries(node);
+		for (const [segment, child] of entries) {
+			const container = isJsonArray(child) || isJsonObject(child);
+			const childSource = container
+				? (origins.get(child)?.path ?? source)
+				: origin
+					? childOrigin(origin, segment)
+					: source;
+			visit(child, appendPath(path, segment), childSource);
+		}
+	};
+	visit(value, '', '');
+	return paths;
+}
+
+// Removes empty object fields; containers are pruned bottom-up, so `recursive` sees the result
+function pruneValue(value: JsonValue, prune: PruneOptions, origins?: Origins): JsonValue {
+	if (isJsonArray(value)) return carryOrigin(origins, value, value.map((item) => pruneValue(item, prune, origins)));
+	if (!isJsonObject(value)) return value;
+	const result: JsonObject = {};
+	for (const key of Object.keys(value)) {
+		const item = value[key];
+		if (isPrunable(item, prune)) continue;
+		const pruned = pruneValue(item, prune, origins);
+		if (prune.recursive && isPrunable(pruned, prune)) continue;
+		result[key] = pruned;
+	}
+	return carryOrigin(origins, value, result);
+}
+
+// Replaces arrays matched by a groupBy pattern with their groups, leaving other values as they are
+function groupArrays(
+	value: JsonValue,
+	groupBy: [PathPattern, GroupBy][],
+	segments: PathSegment[],
+	origins?: Origins,
+): JsonValue {
+	if (isJsonArray(value)) {
+		const items = value.map((item, index) => groupArrays(item, groupBy, [...segments, index], origins));
+		carryOrigin(origins, value, items);
+		const match = groupBy.find(([pattern]) => matchesPathPattern(pattern, segments));
+		return match ? groupRows(items, match[1], segments, origins) : items;
+	}
+	if (!isJsonObject(value)) return value;
+	const result: JsonObject = {};
+	for (const key of Object.keys(value)) result[key] = groupArrays(value[key], groupBy, [...segments, key], origins);
+	return carryOrigin(origins, value, result);
+}
+
+// Arrays that are not rows with primitive values in every group field stay as they are
+function groupRows(
+	items: JsonArray,
+	{ fields, childKey = 'items' }: GroupBy,
+	segments: PathSegment[],
+	origins?: Origins,
+): JsonArray {
+	if (fields.includes(childKey)) {
+		const path = segments.reduce(appendPath, '');
+		throw new EncodeError(`Group child key "${childKey}" at ${describePath(path)} is also a grouping field`, path);
+	}
+	const isGroupable = (item: JsonValue) =>
+		isJsonObject(item) && fields.every((field) => field in item && isJsonPrimitive(item[field]));
+	if (fields.length === 0 || !items.every(isGroupable)) return items;
+
+	const groups = new Map<string, JsonObject>();
+	for (const row of items as JsonObject[]) {
+		const id = JSON.stringify(fields.map((field) => row[field]));
+		let group = groups.get(id);
+		if (!group) {
+			group = {};
+			for (const field of fields) group[field] = row[field];
+			// The group fields are those of its first row; the rows keep their own origin
+			group[childKey] = carryOrigin(origins, items, [], () => undefined);
+			groups.set(id, carryOrigin(origins, row, group));
+		}
+		const rest: JsonObject = {};
+		for (const key of Object.keys(row)) if (!fields.includes(key)) rest[key] = row[key];
+		(group[childKey] as JsonArray).push(carryOrigin(origins, row, rest));
+	}
+	return carryOrigin(origins, items, Array.from(groups.values()), () => undefined);
+}
+
+// Replaces heterogeneous arrays in objects with one `key.part` sibling per shape
+function partitionArrays(value: JsonValue, options: ResolvedOptions): JsonValue {
+	const { origins } = options;
+	if (isJsonArray(value)) return carryOrigin(origins, value, value.map((item) => partitionArrays(item, options)));
+	if (!isJsonObject(value)) return value;
+
+	const result: JsonObject = {};
+	for (const key of Object.keys(value)) {
+		const child = partitionArrays(value[key], options);
+		const parts = isJsonArray(child) ? partitionRows(child, options) : undefined;
+		// A part must not collide with a literal dotted key of the same name
+		if (!parts || [...parts.keys()].some((name) => `${key}.${name}` in value)) {
+			result[key] = child;
+			continue;
+		}
+		for (const [name, rows] of parts) result[`${key}.${name}`] = rows;
+	}
+	return carryOrigin(origins, value, result);
+}
+
+// The parts of a non-tabular array of objects, or undefined when they would not all be tables
+function partitionRows(items: JsonArray, options: ResolvedOptions): Map<string, JsonArray> | undefined {
+	const { by, index = true } = options.partitionShapes as PartitionOptions;
+	if (!isArrayOfObjects(items) || items.length === 0) return undefined;
+	const rows = items as JsonObject[];
+	if (extractTabularHeader(flattenTabularRows(rows, options).rows, options)) return undefined;
+	// Merging would read a row's own `_index` as its position and drop it
+	if (rows.some((row) => PARTITION_INDEX_KEY in row)) return undefined;
+
+	const parts = new Map<string, JsonArray>();
+	const positions = new Map<string, number[]>();
+	const shapes = new Map<string, string>();
+	for (const [position, row] of rows.entries()) {
+		let name: string;
+		if (by !== undefined) {
+			const label = row[by];
+			if (typeof label !== 'string' || !isIdentifierSegment(label)) return undefined;
+			name = label;
+		}
+		else {
+			const shape = JSON.stringify(Object.keys(row).sort());
+			name = shapes.get(shape) ?? `shape${shapes.size + 1}`;
+			shapes.set(shape, name);
+		}
+		const part = parts.get(name) ?? [];
+		const indexed = index ? { [PARTITION_INDEX_KEY]: position, ...row } : row;
+		part.push(carryOrigin(options.origins, row, indexed, (key) => (key === PARTITION_INDEX_KEY ? undefined : key)));
+		parts.set(name, part);
+		const partPositions = positions.get(name) ?? [];
+		partPositions.push(position);
+		positions.set(name, partPositions);
+	}
+
+	const allTabular = [...parts.values()].every((part) =>
+		extractTabularHeader(flattenTabularRows(part as JsonObject[], options).rows, options),
+	);
+	if (parts.size < 2 || !allTabular) return undefined;
+	for (const [name, part] of parts) carryOrigin(options.origins, items, part, (i) => positions.get(name)?.[i as number]);
+	return parts;
+}
+
+// Tables keep their varying columns; the constant ones are collected per array key in `_constants`
+function hoistConstantColumns(value: JsonValue, options: ResolvedOptions): JsonValue {
+	const { origins } = options;
+	if (isJsonArray(value)) return carryOrigin(origins, value, value.map((item) => hoistConstantColumns(item, options)));
+	if (!isJsonObject(value)) return value;
+
+	const result: JsonObject = {};
+	const constants: JsonObject = {};
+	for (const key of Object.keys(value)) {
+		const child = hoistConstantColumns(value[key], options);
+		const columns = CONSTANTS_KEY in value || !isJsonArray(child) ? [] : findConstantColumns(child, options);
+		if (columns.length === 0) {
+			result[key] = child;
+			continue;
+		}
+		const [first] = child as JsonObject[];
+		constants[key] = Object.fromEntries(columns.map((column) => [column, first[column]]));
+		// Restored columns are appended, so other positions have to be written down
+		const order = tableColumns(child as JsonObject[]);
+		if (!order.slice(order.length - columns.length).every((column) => columns.includes(column))) {
+			(constants[key] as JsonObject)[CONSTANTS_ORDER_KEY] = order;
+		}
+		const rows = (child as JsonObject[]).map((row) => {
+			const rest: JsonObject = {};
+			for (const column of Object.keys(row)) if (!columns.includes(column)) rest[column] = row[column];
+			return carryOrigin(origins, row, rest);
+		});
+		result[key] = carryOrigin(origins, child, rows);
+	}
+	if (Object.keys(constants).length > 0) result[CONSTANTS_KEY] = constants;
+	return carryOrigin(origins, value, result);
+}
+
+// Keys of all rows in order of first appearance, which is the order of a (sparse) table header
+function tableColumns(rows: JsonObject[]): string[] {
+	const columns = new Set<string>();
+	for (const row of rows) for (const key of Object.keys(row)) columns.add(key);
+	return [...columns];
+}
+
+// Columns of a table with one primitive value in all rows, as long as at least one column varies
+function findConstantColumns(value: JsonArray, options: ResolvedOptions): string[] {
+	const { minRows, exclude } = options.hoistConstants as Required<HoistConstantsOptions>;
+	if (value.length < minRows || !isArrayOfObjects(value)) return [];
+	const rows = value as JsonObject[];
+	if (!extractTabularHeader(flattenTabularRows(rows, options).rows, options)) return [];
+
+	const [first, ...rest] = rows;
+	const columns = Object.keys(first).filter(
+		(column) =>
+			!exclude.includes(column) &&
+			column !== CONSTANTS_ORDER_KEY &&
+			isJsonPrimitive(first[column]) &&
+			rest.every((row) => column in row && row[column] === first[column]),
+	);
+	return rows.every((row) => Object.keys(row).some((column) => !columns.includes(column))) ? columns : [];
+}
+
+// Tables keep a code in place of each repeated long string; `_dictionary` lists the strings
+function encodeDictionaries(value: JsonValue, options: ResolvedOptions): JsonValue {
+	const { origins } = options;
+	if (isJsonArray(value)) return carryOrigin(origins, value, value.map((item) => encodeDictionaries(item, options)));
+	if (!isJsonObject(value)) return value;
+
+	const result: JsonObject = {};
+	const dictionaries: JsonObject = {};
+	for (const key of Object.keys(value)) {
+		const child = encodeDictionaries(value[key], options);
+		const codes = isJsonArray(child) && !(DICTIONARY_KEY in value) ? findDictionaryCodes(child, options) : undefined;
+		if (!codes) {
+			result[key] = child;
+			continue;
+		}
+		const rows = (child as JsonObject[]).map((row) => {
+			const coded: JsonObject = {};
+			for (const column of Object.keys(row)) {
+				const cell = row[column];
+				coded[column] = (typeof cell === 'string' && codes.get(column)?.get(cell)) || cell;
+			}
+			return carryOrigin(origins, row, coded);
+		});
+		result[key] = carryOrigin(origins, child, rows);
+		dictionaries[key] = Object.fromEntries(
+			[...codes].map(([column, entries]) => [column, [...entries].map(([text, code]) => ({ code, value: text }))]),
+		);
+	}
+	if (Object.keys(dictionaries).length > 0) result[DICTIONARY_KEY] = dictionaries;
+	return carryOrigin(origins, value, result);
+}
+
+// Column → string → code for the strings of a table worth a code, or undefined when there are none
+function findDictionaryCodes(value: JsonArray, options: ResolvedOptions): Map<string, Map<string, string>> | undefined {
+	const { minLength, minCount } = options.dictionary as Required<DictionaryOptions>;
+	if (value.length < minCount || !isArrayOfObjects(value)) return undefined;
+	const rows = value as JsonObject[];
+	if (!extractTabularHeader(flattenTabularRows(rows, options).rows, options)) return undefined;
+
+	const codes = new Map<string, Map<string, string>>();
+	for (const column of Object.keys(rows[0])) {
+		const counts = new Map<string, number>();
+		for (const row of rows) {
+			const cell = row[column];
+			if (typeof cell === 'string') counts.set(cell, (counts.get(cell) ?? 0) + 1);
+		}
+		const entries = new Map<string, string>();
+		let next = 1;
+		for (const [text, count] of counts) {
+			if (text.length < minLength || count < minCount) continue;
+			// A code must not be mistaken for a string that stays in the column
+			while (counts.has(`${DICTIONARY_CODE_PREFIX}${next}`)) next++;
+			entries.set(text, `${DICTIONARY_CODE_PREFIX}${next++}`);
+		}
+		if (entries.size > 0) codes.set(column, entries);
+	}
+	return codes.size > 0 ? codes : undefined;
+}
+
+// Renames keys throughout the value and adds the legend, unless an inline legend has no place
+function aliasObjectKeys(
+	value: JsonValue,
+	options: Required<AliasKeysOptions>,
+	legend?: Record<string, string>,
+	origins?: Origins,
+): JsonValue {
+	const inline = options.legend === 'inline';
+	if (!inline && !legend) {
+		throw new Error('A separate key legend is only returned by encodeWithReport; use legend: \'inline\' here');
+	}
+	if (inline && (!isJsonObject(value) || LEGEND_KEY in value)) return value;
+
+	const aliases = chooseAliases(value, options);
+	if (aliases.size === 0) return value;
+	const entries = [...aliases].map(([key, alias]) => [alias, key]);
+	if (legend) Object.assign(legend, Object.fromEntries(entries));
+
+	const aliased = renameKeys(value, aliases, origins);
+	if (!inline) return aliased;
+	const withLegend = { [LEGEND_KEY]: Object.fromEntries(entries), ...(aliased as JsonObject) };
+	return carryOrigin(origins, aliased, withLegend, (key) => (key === LEGEND_KEY ? undefined : key));
+}
+
+// Key → alias for the keys in the value; given aliases first, then generated ones
+function chooseAliases(value: JsonValue, options: Required<AliasKeysOptions>): Map<string, string> {
+	const keys = new Set<string>();
+	collectKeys(value, keys);
+	const aliases = new Map<string, string>();
+	// Aliases must not read as the inline legend
+	const taken = new Set([...keys, LEGEND_KEY]);
+
+	for (const [key, alias] of Object.entries(options.aliases)) {
+		if (!keys.has(key) || alias === key) continue;
+		if (!alias || taken.has(alias)) throw new EncodeError(`Alias "${alias}" for key "${key}" is already in use`, '');
+		aliases.set(key, alias);
+		taken.add(alias);
+	}
+	if (!options.auto) return aliases;
+
+	for (const key of keys) {
+		const reserved = [CONSTANTS_KEY, CONSTANTS_ORDER_KEY, OMITTED_KEY, PARTITION_INDEX_KEY, DICTIONARY_KEY, LEGEND_KEY].includes(key);
+		if (aliases.has(key) || key.length < options.minLength || reserved) continue;
+		const initials = key.match(/[A-Z]+(?![a-z])|[A-Z]?[a-z]+|\d+/g)?.map((word) => word[0].toLowerCase()).join('') ?? '';
+		const base = /^[a-z]/.test(initials) ? initials : `k${initials}`;
+		let alias = base;
+		for (let n = 2; taken.has(alias); n++) alias = `${base}${n}`;
+		aliases.set(key, alias);
+		taken.add(alias);
+	}
+	return aliases;
+}
+
+function collectKeys(value: JsonValue, keys: Set<string>): void {
+	if (isJsonArray(value)) for (const item of value) collectKeys(item, keys);
+	else if (isJsonObject(value)) {
+		for (const key of Object.keys(value)) {
+			keys.add(key);
+			collectKeys(value[key], keys);
+		}
 	}
-	return null;
+}
+
+function renameKeys(value: JsonValue, names: Map<string, string>, origins?: Origins): JsonValue {
+	if (isJsonArray(value)) return carryOrigin(origins, value, value.map((item) => renameKeys(item, names, origins)));
+	if (!isJsonObject(value)) return value;
+	const result: JsonObject = {};
+	const keys = new Map<PathSegment, string>();
+	for (const key of Object.keys(value)) {
+		const name = names.get(key) ?? key;
+		result[name] = renameKeys(value[key], names, origins);
+		keys.set(name, key);
+	}
+	return carryOrigin(origins, value, result, (name) => keys.get(name));
+}
+
+function isPrunable(value: JsonValue, prune: PruneOptions): boolean {
+	if (value === null) return !!prune.null;
+	if (value === '') return !!prune.emptyString;
+	if (isJsonArray(value)) return !!prune.emptyArray && value.length === 0;
+	if (isJsonObject(value)) return !!prune.emptyObject && Object.keys(value).length === 0;
+	return false;
+}
+
+// Sorts object keys and NFC-normalizes strings so equal data has exactly one representation
+function canonicalizeValue(value: JsonValue, path: string, origins?: Origins): JsonValue {
+	if (typeof value === 'string') return value.normalize('NFC');
+	if (isJsonArray(value)) {
+		const items = value.map((item, index) => canonicalizeValue(item, appendPath(path, index), origins));
+		return carryOrigin(origins, value, items);
+	}
+	if (isJsonObject(value)) {
+		const result: JsonObject = {};
+		const originals = new Map<string, string>();
+		for (const key of Object.keys(value)) {
+			const normalized = key.normalize('NFC');
+			const other = originals.get(normalized);
+			if (other !== undefined) {
+				throw new EncodeError(
+					`Keys ${JSON.stringify(other)} and ${JSON.stringify(key)} at ${describePath(path)} are equal after NFC normalization`,
+					path,
+				);
+			}
+			originals.set(normalized, key);
+		}
+		const entries = [...originals].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+		for (const [normalized, key] of entries) {
+			result[normalized] = canonicalizeValue(value[key], appendPath(path, normalized), origins);
+		}
+		return carryOrigin(origins, value, result, (segment) => originals.get(segment as string));
+	}
+	return value;
+}
+
+// Checked up front, as toFixed throws a bare RangeError for digits outside 0-100
+function resolveNumberFormat(format: NumberFormat | undefined, name: string, canonical = false): NumberFormat | undefined {
+	const digits = format?.maxFractionDigits;
+	if (digits !== undefined && !(Number.isInteger(digits) && digits >= 0 && digits <= 100)) {
+		throw new Error(`${name}.maxFractionDigits must be an integer from 0 to 100, got ${digits}`);
+	}
+	// Canonical output never uses exponent notation or padding zeros, so every number has a single spelling
+	return canonical ? canonicalNumberFormat(format) : format;
+}
+
+function canonicalNumberFormat(format?: NumberFormat): NumberFormat {
+	return { ...format, plainDecimal: true, trimTrailingZeros: true };
 }
 
 function isJsonPrimitive(value: unknown): value is JsonPrimitive {
@@ -96,13 +1244,44 @@ function isArrayOfObjects(value: JsonArray): boolean {
 	return value.every((item) => isJsonObject(item));
 }
 
-function encodePrimitive(value: JsonPrimitive, delimiter: string): string {
+function encodePrimitive(value: JsonPrimitive, delimiter: string, numberFormat?: NumberFormat): string {
 	if (value === null) return NULL_LITERAL;
 	if (typeof value === 'boolean') return String(value);
-	if (typeof value === 'number') return String(value);
+	if (typeof value === 'number') return formatNumber(value, numberFormat);
 	return encodeStringLiteral(value, delimiter);
 }
 
+function formatNumber(value: number, format?: NumberFormat): string {
+	if (!format) return String(value);
+
+	let text = String(value);
+	// toFixed switches to exponent notation itself from 1e21 on, where there are no fraction digits anyway
+	if (format.maxFractionDigits !== undefined && Math.abs(value) < 1e21) {
+		text = value.toFixed(format.maxFractionDigits);
+		if ((format.trimTrailingZeros ?? true) && text.includes('.')) {
+			text = text.replace(/\.?0+$/, '');
+		}
+	}
+	if (format.plainDecimal) {
+		text = toPlainDecimal(text);
+	}
+	// Rounding can leave "-0" behind
+	return Number(text) === 0 ? text.replace(/^-/, '') : text;
+}
+
+// Expands exponent notation (`1e+21`, `1.5e-7`) into plain decimal digits
+function toPlainDecimal(text: string): string {
+	const match = /^(-?)(\d+)(?:\.(\d+))?e([+-]\d+)$/.exec(text);
+	if (!match) return text;
+
+	const [, sign, integerDigits, fractionDigits = '', exponent] = match;
+	const digits = integerDigits + fractionDigits;
+	const point = integerDigits.length + Number(exponent);
+	if (point <= 0) return `${sign}0.${'0'.repeat(-point)}${digits}`;
+	if (point >= digits.length) return `${sign}${digits}${'0'.repeat(point - digits.length)}`;
+	return `${sign}${digits.slice(0, point)}.${digits.slice(point)}`;
+}
+
 function encodeStringLiteral(value: string, delimiter = COMMA): string {
 	if (isSafeUnquoted(value, delimiter)) return value;
 	return `${DOUBLE_QUOTE}${escapeString(value)}${DOUBLE_QUOTE}`;
@@ -146,8 +1325,8 @@ function isSafeUnquoted(value: string, delimiter = COMMA): boolean {
 	return true;
 }
 
-function encodeKey(key: string): string {
-	if (isValidUnquotedKey(key)) return key;
+function encodeKey(key: string, quoteDotted = false): string {
+	if (isValidUnquotedKey(key) && !(quoteDotted && key.includes('.'))) return key;
 	return `${DOUBLE_QUOTE}${escapeString(key)}${DOUBLE_QUOTE}`;
 }
 
@@ -155,35 +1334,53 @@ function isValidUnquotedKey(key: string): boolean {
 	return /^[A-Z_][\w.]*$/i.test(key);
 }
 
-function encodeAndJoinPrimitives(values: JsonPrimitive[], delimiter = COMMA): string {
-	return values.map((v) => encodePrimitive(v, delimiter)).join(delimiter);
+function isIdentifierSegment(key: string): boolean {
+	return /^[A-Z_]\w*$/i.test(key);
 }
 
-function formatHeader(
-	length: number,
-	options?: {
-		key?: string;
-		fields?: string[];
-		delimiter?: string;
+function isExpandablePath(key: string): boolean {
+	return key.includes('.') && key.split('.').every(isIdentifierSegment);
+}
+
+function setPath(target: JsonObject, segments: string[], value: JsonValue): void {
+	let node = target;
+	for (const segment of segments.slice(0, -1)) {
+		if (!isJsonObject(node[segment])) node[segment] = {};
+		node = node[segment] as JsonObject;
+	}
+	node[segments[segments.length - 1]] = value;
+}
+
+function encodeAndJoinPrimitives(values: JsonPrimitive[], delimiter = COMMA, numberFormat?: NumberFormat): string {
+	return values.map((v) => encodePrimitive(v, delimiter, numberFormat)).join(delimiter);
+}
+
+function formatHeader(
+	length: number,
+	options?: {
+		encodedKey?: string;
+		fields?: string[];
+		delimiter?: string;
 		lengthMarker?: '#' | false;
+		quoteDotted?: boolean;
 	},
 ): string {
-	const key = options?.key;
+	const encodedKey = options?.encodedKey;
 	const fields = options?.fields;
 	const delimiter = options?.delimiter ?? COMMA;
 	const lengthMarker = options?.lengthMarker ?? false;
 
 	let header = '';
 
-	if (key) {
-		header += encodeKey(key);
+	if (encodedKey) {
+		header += encodedKey;
 	}
 
 	// v0.4.1: Include delimiter in header if it's not the default (comma)
 	header += `[${lengthMarker || ''}${length}${delimiter !== DEFAULT_DELIMITER ? delimiter : ''}]`;
 
 	if (fields) {
-		const quotedFields = fields.map((f) => encodeKey(f));
+		const quotedFields = fields.map((f) => encodeKey(f, options?.quoteDotted));
 		header += `{${quotedFields.join(delimiter)}}`;
 	}
 
@@ -192,21 +1389,94 @@ function formatHeader(
 	return header;
 }
 
+/** Receives encoded lines one at a time, in document order */
+export type LineSink = (line: string) => void;
+
+/** Where a line of the output came from */
+export interface SourceMapEntry {
+	/** 1-based line number */
+	line: number;
+	/** JSON Pointer of the input value the line was written for, e.g. `/users/0`; empty for the root */
+	pointer: string;
+	/** The cells of a tabular row */
+	cells?: SourceMapCell[];
+}
+
+export interface SourceMapCell {
+	/** Column range in the line: `line.slice(start, end)` is the cell as written */
+	start: number;
+	end: number;
+	pointer: string;
+}
+
+// A cell range relative to the content of a line, before indentation
+type CellSource = { start: number; end: number; path: string };
+
+// Source map entries being collected, and the input path of each path in the encoded value
+type SourceMapBuilder = { entries: SourceMapEntry[]; inputPaths: Map<string, string> };
+
 class LineWriter {
 	private readonly lines: string[] = [];
 	private readonly indentationString: string;
-
-	constructor(indentSize: number) {
+	private readonly sink: LineSink;
+	/** Set by encodeLines to take over the item loop of the next array, so items can be written on demand */
+	deferItems?: (count: number, emit: (index: number) => void) => void;
+
+	constructor(
+		indentSize: number,
+		sink?: LineSink,
+		/** Receives one entry per line when a source map was requested */
+		readonly sourceMap?: SourceMapBuilder,
+		// Indentation of lines at `baseDepth`, for writers created by reindent()
+		private readonly prefix = '',
+		private readonly baseDepth: Depth = 0,
+	) {
 		this.indentationString = ' '.repeat(indentSize);
+		// Without a sink, lines are collected for toString()
+		this.sink = sink ?? ((line) => this.lines.push(line));
 	}
 
-	push(depth: Depth, content: string): void {
-		const indent = this.indentationString.repeat(depth);
-		this.lines.push(indent + content);
+	/** Writes a line for the value at `path`, with the column ranges of its cells if it is a row */
+	push(depth: Depth, content: string, path: string, cells?: CellSource[]): void {
+		const indent = this.prefix + this.indentationString.repeat(depth - this.baseDepth);
+		this.sink(indent + content);
+		if (this.sourceMap) {
+			const { entries, inputPaths } = this.sourceMap;
+			const pointer = (written: string) => toJsonPointer(inputPaths.get(written) ?? written);
+			const entry: SourceMapEntry = { line: entries.length + 1, pointer: pointer(path) };
+			if (cells) {
+				entry.cells = cells.map((cell) => ({
+					start: indent.length + cell.start,
+					end: indent.length + cell.end,
+					pointer: pointer(cell.path),
+				}));
+			}
+			entries.push(entry);
+		}
+	}
+
+	/** A writer into the same output that indents lines below `depth` by `indentSize` per level */
+	reindent(depth: Depth, indentSize: number): LineWriter {
+		const prefix = this.prefix + this.indentationString.repeat(depth - this.baseDepth);
+		const writer = new LineWriter(indentSize, this.sink, this.sourceMap, prefix, depth);
+		writer.deferItems = this.deferItems;
+		this.deferItems = undefined;
+		return writer;
 	}
 
-	pushListItem(depth: Depth, content: string): void {
-		this.push(depth, `${LIST_ITEM_PREFIX}${content}`);
+	/** Calls `emit` with the index of every item of an array, unless encodeLines deferred the loop */
+	eachItem(count: number, emit: (index: number) => void): void {
+		const defer = this.deferItems;
+		if (defer) {
+			this.deferItems = undefined;
+			defer(count, emit);
+			return;
+		}
+		for (let index = 0; index < count; index++) emit(index);
+	}
+
+	pushListItem(depth: Depth, content: string, path: string): void {
+		this.push(depth, `${LIST_ITEM_PREFIX}${content}`, path);
 	}
 
 	toString(): string {
@@ -214,17 +1484,176 @@ class LineWriter {
 	}
 }
 
-function encodeValue(value: JsonValue, options: ResolvedOptions): string {
-	if (isJsonPrimitive(value)) return encodePrimitive(value, options.delimiter);
-	const writer = new LineWriter(options.indent);
-	if (isJsonArray(value)) encodeArray(undefined, value, writer, 0, options);
-	else if (isJsonObject(value)) encodeObject(value, writer, 0, options);
+function encodeValue(value: JsonValue, options: ResolvedOptions, sourceMap?: SourceMapEntry[]): string {
+	const inputPaths = sourceMap && options.origins ? mapInputPaths(value, options.origins) : new Map<string, string>();
+	const writer = new LineWriter(options.indent, undefined, sourceMap && { entries: sourceMap, inputPaths });
+	encodeRoot(value, writer, options);
 	return writer.toString();
 }
 
-function encodeObject(value: JsonObject, writer: LineWriter, depth: number, options: ResolvedOptions): void {
+function encodeRoot(value: JsonValue, writer: LineWriter, rootOptions: ResolvedOptions): void {
+	const options = resolveDocumentDelimiter(value, rootOptions);
+	if (isJsonPrimitive(value)) writer.push(0, encodePrimitive(value, options.delimiter, options.numberFormat), '');
+	else if (isJsonArray(value)) encodeArray(undefined, value, writer, 0, options, '');
+	else if (isJsonObject(value)) encodeObject(value, writer, 0, options, '');
+}
+
+function resolveDocumentDelimiter(value: JsonValue, options: ResolvedOptions): ResolvedOptions {
+	if (options.autoDelimiter !== 'document') return options;
+	const strings: string[] = [];
+	collectStrings(value, strings, true);
+	return { ...options, delimiter: chooseDelimiter(strings), autoDelimiter: undefined };
+}
+
+// Per-array selection looks at the array's own cells: items, row values and items of nested arrays
+function resolveArrayDelimiter(value: JsonArray, options: ResolvedOptions): ResolvedOptions {
+	if (options.autoDelimiter !== 'array') return options;
+	const strings: string[] = [];
+	for (const item of value) collectStrings(item, strings, false);
+	const delimiter = chooseDelimiter(strings);
+	return delimiter === options.delimiter ? options : { ...options, delimiter };
+}
+
+/**
+ * Options, writer and forced layout for the array at `path`: the automatic delimiter is
+ * picked first, then matching overrides are applied. A layout from an override wins
+ * over `visitArray`, which is not asked about empty arrays.
+ */
+function resolveArraySettings(
+	value: JsonArray,
+	writer: LineWriter,
+	depth: Depth,
+	options: ResolvedOptions,
+	path: string,
+): [ResolvedOptions, LineWriter, ArrayLayout | undefined] {
+	options = resolveArrayDelimiter(value, options);
+	let layout: PathOverride['layout'];
+	if (options.overrides.length > 0) {
+		const segments = splitPath(path);
+		for (const [pattern, override] of options.overrides) {
+			if (!matchesPathPattern(pattern, segments)) continue;
+			options = {
+				...options,
+				delimiter: override.delimiter ?? options.delimiter,
+				lengthMarker: override.lengthMarker ?? options.lengthMarker,
+			};
+			if (override.indent !== undefined) writer = writer.reindent(depth, override.indent);
+			layout = override.layout ?? layout;
+		}
+	}
+	if (value.length === 0) return [options, writer, undefined];
+	return [options, writer, layout && layout !== 'auto' ? layout : options.visitArray?.(path, value)];
+}
+
+function assertInlineArray(value: JsonArray, path: string): void {
+	if (!isArrayOfPrimitives(value)) {
+		throw new EncodeError(`Array at ${describePath(path)} cannot be encoded inline: items must be primitives`, path);
+	}
+}
+
+function recordLayout(
+	options: ResolvedOptions,
+	path: string,
+	value: JsonArray,
+	layout: ArrayLayout,
+	reason: () => string,
+): void {
+	options.layoutLog?.push({ path, value, layout, reason: reason(), options });
+}
+
+function explainTable(rows: JsonObject[], header: string[], flattened: boolean): string {
+	if (flattened) return 'nested objects flattened into dotted columns';
+	if (isTabularArray(rows, header)) return 'all rows have the same primitive fields';
+	return `sparse table, ${formatPercent(countFilledCells(rows) / (rows.length * header.length))} of cells filled`;
+}
+
+// Why rows of objects could not share a header, starting with what sparse tables can't fix either
+function explainNoTable(rows: JsonObject[], options: ResolvedOptions): string {
+	const firstKeys = Object.keys(rows[0]);
+	if (firstKeys.length === 0) return 'row 0 has no fields';
+
+	const nonPrimitive = new Map<string, number>();
+	for (const row of rows) {
+		for (const key of Object.keys(row)) {
+			if (!isJsonPrimitive(row[key])) nonPrimitive.set(key, (nonPrimitive.get(key) ?? 0) + 1);
+		}
+	}
+	const [field, count] = nonPrimitive.entries().next().value ?? [];
+	if (field !== undefined) return `field \`${field}\` is non-primitive in ${pluralize(count as number, 'row')}`;
+
+	const nullCell = options.sparseTabular ? findNullCell(rows) : undefined;
+	if (nullCell) return `row ${nullCell[0]} has a null \`${nullCell[1]}\`, which sparse tables would drop`;
+
+	let reason = 'rows have different fields';
+	for (let i = 1; i < rows.length; i++) {
+		const keys = Object.keys(rows[i]);
+		const missing = firstKeys.find((key) => !(key in rows[i]));
+		const extra = keys.find((key) => !firstKeys.includes(key));
+		if (missing === undefined && extra === undefined) continue;
+		reason = missing !== undefined ? `row ${i} missing key \`${missing}\`` : `row ${i} has extra key \`${extra}\``;
+		break;
+	}
+	if (!options.sparseTabular) return reason;
+
+	const columns = new Set(rows.flatMap((row) => Object.keys(row))).size;
+	const coverage = countFilledCells(rows) / (rows.length * columns);
+	return `${reason}; only ${formatPercent(coverage)} of cells filled, sparse tables need ${formatPercent(options.sparseThreshold)}`;
+}
+
+function explainMixedArray(value: JsonArray): string {
+	if (isArrayOfArrays(value)) return 'items are arrays containing objects or arrays';
+	const objects = value.filter(isJsonObject).length;
+	const arrays = value.filter(isJsonArray).length;
+	const primitives = value.length - objects - arrays;
+	const parts = [
+		objects && pluralize(objects, 'object'),
+		arrays && pluralize(arrays, 'array'),
+		primitives && pluralize(primitives, 'primitive'),
+	];
+	return `mixed types: ${parts.filter(Boolean).join(', ')}`;
+}
+
+function countFilledCells(rows: JsonObject[]): number {
+	return rows.reduce((total, row) => total + Object.keys(row).length, 0);
+}
+
+function formatPercent(share: number): string {
+	return `${Math.round(share * 100)}%`;
+}
+
+function pluralize(count: number, noun: string): string {
+	return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+// Strings in `value`; without `deep` only those directly inside it
+function collectStrings(value: JsonValue, into: string[], deep: boolean): void {
+	if (typeof value === 'string') {
+		into.push(value);
+		return;
+	}
+	const children = isJsonArray(value) ? value : isJsonObject(value) ? Object.values(value) : [];
+	for (const child of children) {
+		if (deep || isJsonPrimitive(child)) collectStrings(child, into, deep);
+	}
+}
+
+// The delimiter that leaves the fewest strings quoted
+function chooseDelimiter(strings: string[]): string {
+	let best = DELIMITERS[0];
+	let fewestQuoted = Infinity;
+	for (const delimiter of DELIMITERS) {
+		const quoted = strings.filter((value) => !isSafeUnquoted(value, delimiter)).length;
+		if (quoted < fewestQuoted) {
+			best = delimiter;
+			fewestQuoted = quoted;
+		}
+	}
+	return best;
+}
+
+function encodeObject(value: JsonObject, writer: LineWriter, depth: number, options: ResolvedOptions, path: string): void {
 	const keys = Object.keys(value);
-	for (const key of keys) encodeKeyValuePair(key, value[key], writer, depth, options);
+	for (const key of keys) encodeKeyValuePair(key, value[key], writer, depth, options, keys, path);
 }
 
 function encodeKeyValuePair(
@@ -233,36 +1662,89 @@ function encodeKeyValuePair(
 	writer: LineWriter,
 	depth: number,
 	options: ResolvedOptions,
+	siblings: string[],
+	parentPath: string,
 ): void {
-	const encodedKey = encodeKey(key);
-	if (isJsonPrimitive(value))
-		writer.push(depth, `${encodedKey}: ${encodePrimitive(value, options.delimiter)}`);
-	else if (isJsonArray(value)) encodeArray(key, value, writer, depth, options);
-	else if (isJsonObject(value))
-		if (Object.keys(value).length === 0) writer.push(depth, `${encodedKey}:`);
+	const [encodedKey, leaf, keyPath] = foldKeyChain(key, value, siblings, options);
+	const path = keyPath.reduce(appendPath, parentPath);
+	if (isJsonPrimitive(leaf))
+		writer.push(depth, `${encodedKey}: ${encodePrimitive(leaf, options.delimiter, options.numberFormat)}`, path);
+	else if (isJsonArray(leaf)) encodeArray(encodedKey, leaf, writer, depth, options, path);
+	else if (isJsonObject(leaf))
+		if (Object.keys(leaf).length === 0) writer.push(depth, `${encodedKey}:`, path);
 		else {
-			writer.push(depth, `${encodedKey}:`);
-			encodeObject(value, writer, depth + 1, options);
+			writer.push(depth, `${encodedKey}:`, path);
+			encodeObject(leaf, writer, depth + 1, options, path);
 		}
 }
 
+/**
+ * Folds a chain of single-key objects into one dotted key (`data.attributes.profile`).
+ * Returns the encoded key, the value left at the end of the chain and the keys folded
+ * into it; the key is returned unfolded when folding is off or would be ambiguous on expansion.
+ */
+function foldKeyChain(
+	key: string,
+	value: JsonValue,
+	siblings: string[],
+	options: ResolvedOptions,
+): [string, JsonValue, string[]] {
+	const quoteDotted = options.keyFolding === 'safe';
+	const unfolded: [string, JsonValue, string[]] = [encodeKey(key, quoteDotted), value, [key]];
+	if (options.keyFolding !== 'safe' || !isIdentifierSegment(key)) return unfolded;
+
+	// A literal dotted sibling like "data.x" would merge into the folded path when expanded
+	if (siblings.some((sibling) => sibling !== key && sibling.split('.')[0] === key)) return unfolded;
+
+	const segments = [key];
+	let leaf = value;
+	while (segments.length < options.flattenDepth && isJsonObject(leaf)) {
+		const keys = Object.keys(leaf);
+		if (keys.length !== 1 || !isIdentifierSegment(keys[0])) break;
+		segments.push(keys[0]);
+		leaf = leaf[keys[0]];
+	}
+
+	if (segments.length < 2) return unfolded;
+	return [segments.join('.'), leaf, segments];
+}
+
+// `key` arrives already encoded, so folded paths are not quoted again
 function encodeArray(
 	key: string | undefined,
 	value: JsonArray,
 	writer: LineWriter,
 	depth: Depth,
 	options: ResolvedOptions,
+	path: string,
 ): void {
+	let layout: ArrayLayout | undefined;
+	[options, writer, layout] = resolveArraySettings(value, writer, depth, options, path);
 	if (value.length === 0) {
-		const header = formatHeader(0, { key, delimiter: options.delimiter, lengthMarker: options.lengthMarker });
-		writer.push(depth, header);
+		recordLayout(options, path, value, 'inline', () => 'empty array');
+		const header = formatHeader(0, { encodedKey: key, delimiter: options.delimiter, lengthMarker: options.lengthMarker });
+		writer.push(depth, header, path);
+		return;
+	}
+
+	if (layout) recordLayout(options, path, value, layout, () => FORCED_LAYOUT_REASON);
+	if (layout === 'inline') assertInlineArray(value, path);
+	if (layout === 'list') {
+		encodeMixedArrayAsListItems(key, value, writer, depth, options, path);
+		return;
+	}
+	if (layout === 'tabular') {
+		const { rows, flattened } = flattenTabularRows(value as JsonObject[], options);
+		const header = extractForcedTabularHeader(value, rows, path, options);
+		encodeArrayOfObjectsAsTabular(key, rows, header, writer, depth, options, path, flattened);
 		return;
 	}
 
 	// Primitive array
 	if (isArrayOfPrimitives(value)) {
-		const formatted = encodeInlineArrayLine(value as JsonPrimitive[], options.delimiter, key, options.lengthMarker);
-		writer.push(depth, formatted);
+		if (!layout) recordLayout(options, path, value, 'inline', () => 'all items are primitives');
+		const formatted = encodeInlineArrayLine(value as JsonPrimitive[], options.delimiter, key, options.lengthMarker, options.numberFormat);
+		writer.push(depth, formatted, path);
 		return;
 	}
 
@@ -270,25 +1752,30 @@ function encodeArray(
 	if (isArrayOfArrays(value)) {
 		const allPrimitiveArrays = value.every((arr) => isJsonArray(arr) && isArrayOfPrimitives(arr));
 		if (allPrimitiveArrays) {
-			encodeArrayOfArraysAsListItems(key, value as JsonArray[], writer, depth, options);
+			recordLayout(options, path, value, 'list', () => 'items are arrays of primitives');
+			encodeArrayOfArraysAsListItems(key, value as JsonArray[], writer, depth, options, path);
 			return;
 		}
 	}
 
 	// Array of objects
 	if (isArrayOfObjects(value)) {
-		const header = extractTabularHeader(value as JsonObject[]);
+		const { rows, flattened } = flattenTabularRows(value as JsonObject[], options);
+		const header = extractTabularHeader(rows, options);
 		if (header) {
-			encodeArrayOfObjectsAsTabular(key, value as JsonObject[], header, writer, depth, options);
+			recordLayout(options, path, value, 'tabular', () => explainTable(rows, header, flattened));
+			encodeArrayOfObjectsAsTabular(key, rows, header, writer, depth, options, path, flattened);
 		}
 		else {
-			encodeMixedArrayAsListItems(key, value, writer, depth, options);
+			recordLayout(options, path, value, 'list', () => explainNoTable(rows, options));
+			encodeMixedArrayAsListItems(key, value, writer, depth, options, path);
 		}
 		return;
 	}
 
 	// Mixed array: fallback to expanded format
-	encodeMixedArrayAsListItems(key, value, writer, depth, options);
+	recordLayout(options, path, value, 'list', () => explainMixedArray(value));
+	encodeMixedArrayAsListItems(key, value, writer, depth, options, path);
 }
 
 function encodeArrayOfArraysAsListItems(
@@ -297,20 +1784,22 @@ function encodeArrayOfArraysAsListItems(
 	writer: LineWriter,
 	depth: Depth,
 	options: ResolvedOptions,
+	path: string,
 ): void {
 	const header = formatHeader(values.length, {
-		key: prefix,
+		encodedKey: prefix,
 		delimiter: options.delimiter,
 		lengthMarker: options.lengthMarker,
 	});
-	writer.push(depth, header);
+	writer.push(depth, header, path);
 
-	for (const arr of values) {
+	writer.eachItem(values.length, (index) => {
+		const arr = values[index];
 		if (isArrayOfPrimitives(arr)) {
-			const inline = encodeInlineArrayLine(arr as JsonPrimitive[], options.delimiter, undefined, options.lengthMarker);
-			writer.pushListItem(depth + 1, inline);
+			const inline = encodeInlineArrayLine(arr as JsonPrimitive[], options.delimiter, undefined, options.lengthMarker, options.numberFormat);
+			writer.pushListItem(depth + 1, inline, appendPath(path, index));
 		}
-	}
+	});
 }
 
 function encodeInlineArrayLine(
@@ -318,9 +1807,10 @@ function encodeInlineArrayLine(
 	delimiter: string,
 	prefix?: string,
 	lengthMarker?: '#' | false,
+	numberFormat?: NumberFormat,
 ): string {
-	const header = formatHeader(values.length, { key: prefix, delimiter, lengthMarker });
-	const joinedValue = encodeAndJoinPrimitives(values, delimiter);
+	const header = formatHeader(values.length, { encodedKey: prefix, delimiter, lengthMarker });
+	const joinedValue = encodeAndJoinPrimitives(values, delimiter, numberFormat);
 	// Only add space if there are values
 	if (values.length === 0) {
 		return header;
@@ -335,190 +1825,1046 @@ function encodeArrayOfObjectsAsTabular(
 	writer: LineWriter,
 	depth: Depth,
 	options: ResolvedOptions,
+	path: string,
+	flattened: boolean,
 ): void {
 	const headerStr = formatHeader(rows.length, {
-		key: prefix,
+		encodedKey: prefix,
 		fields: header,
 		delimiter: options.delimiter,
 		lengthMarker: options.lengthMarker,
+		quoteDotted: quotesDottedFields(flattened, options),
+	});
+	writer.push(depth, `${headerStr}`, path);
+	writeTabularRows(rows, header, writer, depth + 1, options, path, flattened);
+}
+
+function extractTabularHeader(rows: JsonObject[], options: ResolvedOptions): string[] | undefined {
+	if (rows.length === 0) return undefined;
+
+	const firstRow = rows[0];
+	if (!isJsonObject(firstRow)) return undefined;
+
+	const firstKeys = Object.keys(firstRow);
+	if (firstKeys.length === 0) return undefined;
+
+	// Sparse decoding drops null cells, so rows with nulls of their own stay out of tables
+	if (options.sparseTabular && findNullCell(rows)) return undefined;
+
+	if (isTabularArray(rows, firstKeys)) {
+		return firstKeys;
+	}
+	if (options.sparseTabular) {
+		return extractSparseTabularHeader(rows, options.sparseThreshold, options.canonical);
+	}
+	return undefined;
+}
+
+// Header for an array forced into tabular layout: any key union works, as long as all cells are primitives
+function extractForcedTabularHeader(
+	value: JsonArray,
+	rows: JsonObject[],
+	path: string,
+	options: ResolvedOptions,
+): string[] {
+	const header = isArrayOfObjects(value)
+		? (extractTabularHeader(rows, options) ?? extractSparseTabularHeader(rows, 0, options.canonical))
+		: undefined;
+	if (!header) {
+		const nulls = options.sparseTabular ? ', and no nulls when sparseTabular is on' : '';
+		throw new EncodeError(
+			`Array at ${describePath(path)} cannot be encoded as a table: rows must be objects with primitive values${nulls}`,
+			path,
+		);
+	}
+	return header;
+}
+
+// Rows with nested objects flattened to dotted columns, or the original rows if any row can't be
+function flattenTabularRows(rows: JsonObject[], options: ResolvedOptions): { rows: JsonObject[]; flattened: boolean } {
+	if (!options.flattenColumns) return { rows, flattened: false };
+
+	const flattened: JsonObject[] = [];
+	for (const row of rows) {
+		const flat = flattenRow(row, '', {});
+		if (!flat) return { rows, flattened: false };
+		flattened.push(flat);
+	}
+	return { rows: flattened, flattened: true };
+}
+
+// Literal dotted fields are quoted in safe folding mode, and next to flattened columns, so decoders keep them as-is
+function quotesDottedFields(flattened: boolean, options: ResolvedOptions): boolean {
+	return !flattened && (options.keyFolding === 'safe' || options.flattenColumns);
+}
+
+function flattenRow(row: JsonObject, prefix: string, into: JsonObject): JsonObject | undefined {
+	for (const key of Object.keys(row)) {
+		const value = row[key];
+		const column = `${prefix}${key}`;
+		if (isJsonObject(value)) {
+			// Empty objects would vanish and non-identifier segments can't be split back
+			if (!isIdentifierSegment(key) || Object.keys(value).length === 0) return undefined;
+			if (!flattenRow(value, `${column}.`, into)) return undefined;
+			continue;
+		}
+		// Literal dotted keys would be indistinguishable from flattened columns
+		if (key.includes('.') || (prefix && !isIdentifierSegment(key))) return undefined;
+		into[column] = value;
+	}
+	return into;
+}
+
+// Union of all row keys in order of first appearance, if enough cells are filled
+function extractSparseTabularHeader(rows: JsonObject[], threshold: number, sorted: boolean): string[] | undefined {
+	const header: string[] = [];
+	const seen = new Set<string>();
+	let filledCells = 0;
+
+	for (const row of rows) {
+		for (const key of Object.keys(row)) {
+			// A null of the row's own would be dropped like a missing cell when decoding
+			if (!isJsonPrimitive(row[key]) || row[key] === null) {
+				return undefined;
+			}
+			if (!seen.has(key)) {
+				seen.add(key);
+				header.push(key);
+			}
+			filledCells++;
+		}
+	}
+
+	// The key union follows row order, so canonical output sorts it like object keys
+	if (sorted) header.sort();
+	// Decoded rows list their keys in header order
+	const inHeaderOrder = rows.every((row) =>
+		Object.keys(row).every((key, i, keys) => i === 0 || header.indexOf(keys[i - 1]) < header.indexOf(key)),
+	);
+	const coverage = filledCells / (rows.length * header.length);
+	return inHeaderOrder && coverage >= threshold ? header : undefined;
+}
+
+// First `[row, key]` whose cell holds a null of the row's own
+function findNullCell(rows: JsonObject[]): [number, string] | undefined {
+	for (let i = 0; i < rows.length; i++) {
+		const key = Object.keys(rows[i]).find((field) => rows[i][field] === null);
+		if (key !== undefined) return [i, key];
+	}
+	return undefined;
+}
+
+function isTabularArray(rows: JsonObject[], header: string[]): boolean {
+	for (const row of rows) {
+		const keys = Object.keys(row);
+
+		// All objects must have the same keys (but order can differ)
+		if (keys.length !== header.length) {
+			return false;
+		}
+
+		// Check that all header keys exist in the row and all values are primitives
+		for (const key of header) {
+			if (!(key in row)) {
+				return false;
+			}
+			if (!isJsonPrimitive(row[key])) {
+				return false;
+			}
+		}
+	}
+
+	return true;
+}
+
+// `flattened` rows have dotted columns that point into nested objects of the source row
+function writeTabularRows(
+	rows: JsonObject[],
+	header: string[],
+	writer: LineWriter,
+	depth: Depth,
+	options: ResolvedOptions,
+	path: string,
+	flattened = false,
+): void {
+	const { delimiter } = options;
+	const numberFormats = resolveColumnNumberFormats(header, options);
+	if (!writer.sourceMap) {
+		writer.eachItem(rows.length, (index) => {
+			writer.push(depth, encodeTabularRow(rows[index], header, numberFormats, delimiter), path);
+		});
+		return;
+	}
+
+	const columns = header.map((key) => (flattened ? key.split('.') : [key]));
+	writer.eachItem(rows.length, (index) => {
+		const row = rows[index];
+		const rowPath = appendPath(path, index);
+		const cells = encodeTabularCells(row, header, numberFormats, delimiter);
+		let start = 0;
+		const sources = cells.map((cell, i): CellSource => {
+			const source = { start, end: start + cell.length, path: columns[i].reduce(appendPath, rowPath) };
+			start = source.end + delimiter.length;
+			return source;
+		});
+		writer.push(depth, cells.join(delimiter), rowPath, sources);
+	});
+}
+
+// Column formats refine the document-wide number format
+function resolveColumnNumberFormats(header: string[], options: ResolvedOptions): (NumberFormat | undefined)[] {
+	return header.map((key) =>
+		key in options.columnNumberFormats ? { ...options.numberFormat, ...options.columnNumberFormats[key] } : options.numberFormat,
+	);
+}
+
+function encodeTabularRow(
+	row: JsonObject,
+	header: string[],
+	numberFormats: (NumberFormat | undefined)[],
+	delimiter: string,
+): string {
+	return encodeTabularCells(row, header, numberFormats, delimiter).join(delimiter);
+}
+
+function encodeTabularCells(
+	row: JsonObject,
+	header: string[],
+	numberFormats: (NumberFormat | undefined)[],
+	delimiter: string,
+): string[] {
+	// Cells missing from sparse rows are filled with null
+	return header.map((key, i) => encodePrimitive((row[key] ?? null) as JsonPrimitive, delimiter, numberFormats[i]));
+}
+
+function encodeMixedArrayAsListItems(
+	prefix: string | undefined,
+	items: JsonValue[],
+	writer: LineWriter,
+	depth: Depth,
+	options: ResolvedOptions,
+	path: string,
+): void {
+	const header = formatHeader(items.length, {
+		encodedKey: prefix,
+		delimiter: options.delimiter,
+		lengthMarker: options.lengthMarker,
 	});
-	writer.push(depth, `${headerStr}`);
-	writeTabularRows(rows, header, writer, depth + 1, options);
+	writer.push(depth, header, path);
+
+	writer.eachItem(items.length, (index) => {
+		encodeListItemValue(items[index], writer, depth + 1, options, appendPath(path, index));
+	});
+}
+
+function encodeListItemValue(
+	value: JsonValue,
+	writer: LineWriter,
+	depth: Depth,
+	options: ResolvedOptions,
+	path: string,
+): void {
+	if (isJsonPrimitive(value)) {
+		writer.pushListItem(depth, encodePrimitive(value, options.delimiter, options.numberFormat), path);
+	}
+	else if (isJsonArray(value) && isArrayOfPrimitives(value)) {
+		const inline = encodeInlineArrayLine(value as JsonPrimitive[], options.delimiter, undefined, options.lengthMarker, options.numberFormat);
+		writer.pushListItem(depth, inline, path);
+	}
+	else if (isJsonObject(value)) {
+		encodeObjectAsListItem(value as JsonObject, writer, depth, options, path);
+	}
+}
+
+function encodeObjectAsListItem(
+	obj: JsonObject,
+	writer: LineWriter,
+	depth: Depth,
+	options: ResolvedOptions,
+	path: string,
+): void {
+	const keys = Object.keys(obj);
+	if (keys.length === 0) {
+		writer.push(depth, LIST_ITEM_MARKER, path);
+		return;
+	}
+
+	// First key-value on the same line as "- "
+	const [encodedKey, firstValue, keyPath] = foldKeyChain(keys[0], obj[keys[0]], keys, options);
+	const firstPath = keyPath.reduce(appendPath, path);
+
+	if (isJsonPrimitive(firstValue)) {
+		writer.pushListItem(depth, `${encodedKey}: ${encodePrimitive(firstValue, options.delimiter, options.numberFormat)}`, firstPath);
+	}
+	else if (isJsonArray(firstValue)) {
+		const [arrayOptions, arrayWriter, layout] = resolveArraySettings(firstValue, writer, depth, options, firstPath);
+		if (layout) recordLayout(arrayOptions, firstPath, firstValue, layout, () => FORCED_LAYOUT_REASON);
+		if (layout === 'inline') assertInlineArray(firstValue, firstPath);
+		if (layout === 'tabular') {
+			const { rows, flattened } = flattenTabularRows(firstValue as JsonObject[], arrayOptions);
+			const header = extractForcedTabularHeader(firstValue, rows, firstPath, arrayOptions);
+			const headerStr = formatHeader(firstValue.length, {
+				encodedKey,
+				fields: header,
+				delimiter: arrayOptions.delimiter,
+				lengthMarker: arrayOptions.lengthMarker,
+				quoteDotted: quotesDottedFields(flattened, arrayOptions),
+			});
+			arrayWriter.pushListItem(depth, headerStr, firstPath);
+			writeTabularRows(rows, header, arrayWriter, depth + 1, arrayOptions, firstPath, flattened);
+		}
+		else if (layout !== 'list' && isArrayOfPrimitives(firstValue)) {
+			if (!layout) {
+				const reason = firstValue.length === 0 ? 'empty array' : 'all items are primitives';
+				recordLayout(arrayOptions, firstPath, firstValue, 'inline', () => reason);
+			}
+			// Inline format for primitive arrays
+			const formatted = encodeInlineArrayLine(firstValue as JsonPrimitive[], arrayOptions.delimiter, encodedKey, arrayOptions.lengthMarker, arrayOptions.numberFormat);
+			arrayWriter.pushListItem(depth, formatted, firstPath);
+		}
+		else if (layout !== 'list' && isArrayOfObjects(firstValue)) {
+			// Check if array of objects can use tabular format
+			const { rows, flattened } = flattenTabularRows(firstValue as JsonObject[], arrayOptions);
+			const header = extractTabularHeader(rows, arrayOptions);
+			if (header) {
+				recordLayout(arrayOptions, firstPath, firstValue, 'tabular', () => explainTable(rows, header, flattened));
+				// Tabular format for uniform arrays of objects
+				const headerStr = formatHeader(firstValue.length, {
+					encodedKey,
+					fields: header,
+					delimiter: arrayOptions.delimiter,
+					lengthMarker: arrayOptions.lengthMarker,
+					quoteDotted: quotesDottedFields(flattened, arrayOptions),
+				});
+				arrayWriter.pushListItem(depth, headerStr, firstPath);
+				writeTabularRows(rows, header, arrayWriter, depth + 1, arrayOptions, firstPath, flattened);
+			}
+			else {
+				recordLayout(arrayOptions, firstPath, firstValue, 'list', () => explainNoTable(rows, arrayOptions));
+				// Fall back to list format for non-uniform arrays of objects
+				arrayWriter.pushListItem(depth, `${encodedKey}[${firstValue.length}]:`, firstPath);
+				firstValue.forEach((item, index) => {
+					if (isJsonObject(item)) {
+						encodeObjectAsListItem(item as JsonObject, arrayWriter, depth + 1, arrayOptions, appendPath(firstPath, index));
+					}
+				});
+			}
+		}
+		else {
+			if (!layout) recordLayout(arrayOptions, firstPath, firstValue, 'list', () => explainMixedArray(firstValue));
+			// Complex arrays on separate lines (array of arrays, etc.)
+			arrayWriter.pushListItem(depth, `${encodedKey}[${firstValue.length}]:`, firstPath);
+
+			// Encode array contents at depth + 1
+			firstValue.forEach((item, index) => {
+				encodeListItemValue(item, arrayWriter, depth + 1, arrayOptions, appendPath(firstPath, index));
+			});
+		}
+	}
+	else if (isJsonObject(firstValue)) {
+		const nestedKeys = Object.keys(firstValue);
+		if (nestedKeys.length === 0) {
+			writer.pushListItem(depth, `${encodedKey}:`, firstPath);
+		}
+		else {
+			writer.pushListItem(depth, `${encodedKey}:`, firstPath);
+			encodeObject(firstValue, writer, depth + 2, options, firstPath);
+		}
+	}
+
+	// Remaining keys on indented lines
+	for (let i = 1; i < keys.length; i++) {
+		const key = keys[i];
+		encodeKeyValuePair(key, obj[key], writer, depth + 1, options, keys, path);
+	}
+}
+
+function resolveEncodeOptions(options?: EncodeOptions): ResolvedOptions {
+	return {
+		indent: options?.indent ?? 2,
+		// 'auto' is settled per document or array once the value is known
+		delimiter: options?.delimiter === 'auto' ? DEFAULT_DELIMITER : options?.delimiter ?? DEFAULT_DELIMITER,
+		autoDelimiter: options?.delimiter === 'auto' ? options.autoDelimiter ?? 'document' : undefined,
+		lengthMarker: options?.lengthMarker ?? false,
+		keyFolding: options?.keyFolding ?? 'off',
+		flattenDepth: options?.flattenDepth ?? Infinity,
+		sparseTabular: options?.sparseTabular ?? false,
+		sparseThreshold: options?.sparseThreshold ?? 0.8,
+		flattenColumns: options?.flattenColumns ?? false,
+		canonical: options?.canonical ?? false,
+		numberFormat: resolveNumberFormat(options?.numberFormat, 'numberFormat', options?.canonical),
+		columnNumberFormats: Object.fromEntries(
+			Object.entries(options?.columnNumberFormats ?? {}).map(([column, format]) => [
+				column,
+				resolveNumberFormat(format, `columnNumberFormats.${column}`, options?.canonical) as NumberFormat,
+			]),
+		),
+		maxTokens: options?.maxTokens,
+		strategy: options?.strategy ?? 'head',
+		markOmissions: options?.markOmissions ?? true,
+		projection:
+			options?.include?.length || options?.exclude?.length
+				? {
+						include: (options.include ?? []).map(parseProjectionPattern),
+						exclude: (options.exclude ?? []).map(parseProjectionPattern),
+					}
+				: undefined,
+		replacer: options?.replacer,
+		visitArray: options?.visitArray,
+		unsupportedValues: options?.unsupportedValues ?? 'null',
+		binaryEncoding: options?.binaryEncoding ?? 'base64',
+		binaryPrefix: options?.binaryPrefix ?? false,
+		maxDepth: options?.maxDepth ?? Infinity,
+		onCircular: options?.onCircular ?? 'throw',
+		onMaxDepth: options?.onMaxDepth ?? 'throw',
+		prune: options?.prune,
+		overrides: Object.entries(options?.overrides ?? {}).map(([pattern, override]) =>
+			resolvePathOverride(pattern, override, options?.indent ?? 2),
+		),
+		verify: options?.verify,
+		groupBy: Object.entries(options?.groupBy ?? {}).map(([pattern, group]) => [parsePathPattern(pattern), group]),
+		hoistConstants: options?.hoistConstants
+			? {
+					minRows: 3,
+					exclude: [],
+					...(options.hoistConstants === true ? {} : options.hoistConstants),
+				}
+			: undefined,
+		partitionShapes: options?.partitionShapes === true ? {} : options?.partitionShapes || undefined,
+		aliasKeys: options?.aliasKeys
+			? {
+					aliases: {},
+					auto: true,
+					minLength: 10,
+					legend: 'inline',
+					...(options.aliasKeys === true ? {} : options.aliasKeys),
+				}
+			: undefined,
+		dictionary: options?.dictionary
+			? { minLength: 16, minCount: 3, ...(options.dictionary === true ? {} : options.dictionary) }
+			: undefined,
+	};
+}
+
+function normalizeInput(input: unknown, options: ResolvedOptions, warnings?: EncodeWarning[]): JsonValue {
+	const { projection, replacer } = options;
+	const value = replacer ? applyReplacer(replacer, { '': input }, '', input, '') : input;
+	const scope: NormalizeScope = {
+		path: '',
+		depth: 0,
+		ancestors: new Map(),
+		projection: projection && startProjection(projection),
+		options,
+		warnings,
+	};
+	return normalizeValue(value, scope) ?? null;
+}
+
+// Turns arbitrary input into the JSON value that gets encoded
+// `legend` receives the aliases used, when keys are aliased
+function prepareValue(
+	input: unknown,
+	options: ResolvedOptions,
+	warnings?: EncodeWarning[],
+	legend?: Record<string, string>,
+): JsonValue {
+	return compactData(prepareData(input, options, warnings), options, warnings, legend);
+}
+
+// The data as the caller asked for it: what decoding the output has to give back
+function prepareData(input: unknown, options: ResolvedOptions, warnings?: EncodeWarning[]): JsonValue {
+	const normalized = normalizeInput(input, options, warnings);
+	const { origins } = options;
+	const pruned = options.prune ? pruneValue(normalized, options.prune, origins) : normalized;
+	const grouped = options.groupBy.length > 0 ? groupArrays(pruned, options.groupBy, [], origins) : pruned;
+	return options.canonical ? canonicalizeValue(grouped, '', origins) : grouped;
+}
+
+// Rewrites that `decode` can reverse, then the token budget, which can't be reversed
+function compactData(
+	data: JsonValue,
+	options: ResolvedOptions,
+	warnings?: EncodeWarning[],
+	legend?: Record<string, string>,
+): JsonValue {
+	const partitioned = options.partitionShapes ? partitionArrays(data, options) : data;
+	const hoisted = options.hoistConstants ? hoistConstantColumns(partitioned, options) : partitioned;
+	const coded = options.dictionary ? encodeDictionaries(hoisted, options) : hoisted;
+	const value = options.aliasKeys ? aliasObjectKeys(coded, options.aliasKeys, legend, options.origins) : coded;
+	if (options.maxTokens === undefined) return value;
+
+	// Root arrays and arrays in arrays have no sibling key for an `_omitted` note
+	const fitted = fitToBudget(value, options);
+	for (const omission of fitted.unmarked) {
+		warnings?.push({
+			path: omission.path,
+			originalType: 'array',
+			conversion: `${describeOmission(omission, options.strategy)}, not noted in ${OMITTED_KEY}`,
+		});
+	}
+	return fitted.value;
+}
+
+export interface SourceMappedToon {
+	toon: string;
+	/** One entry per line, in order */
+	sourceMap: SourceMapEntry[];
+}
+
+export function encode(input: unknown, options?: EncodeOptions): string {
+	const resolved = resolveEncodeOptions(options);
+	const data = prepareData(input, resolved);
+	const toon = encodeValue(compactData(data, resolved), resolved);
+	if (resolved.verify === 'throw') assertRoundTrip(data, toon, resolved);
+	return toon;
+}
+
+/**
+ * Encodes like `encode` and maps every line (and every cell of tabular rows) to the
+ * JSON Pointer of the input value it was written for: aliased keys, partitioned and
+ * grouped rows and items kept under `maxTokens` point to where they are in the input.
+ * Lines the encoder adds (`_constants`, `_legend`, `_omitted`, `_index`, ...) point to
+ * the object or row they were added to.
+ */
+export function encodeWithSourceMap(input: unknown, options?: EncodeOptions): SourceMappedToon {
+	const resolved: ResolvedOptions = { ...resolveEncodeOptions(options), origins: new WeakMap() };
+	const data = prepareData(input, resolved);
+	const sourceMap: SourceMapEntry[] = [];
+	const toon = encodeValue(compactData(data, resolved), resolved, sourceMap);
+	if (resolved.verify === 'throw') assertRoundTrip(data, toon, resolved);
+	return { toon, sourceMap };
+}
+
+/** A value that could not be encoded as it was */
+export interface EncodeWarning {
+	/** JSON path of the value, e.g. `stats.ratio`; empty for the root */
+	path: string;
+	/** What the value was: `NaN`, `-0`, `bigint`, `undefined`, `function`, `Set`, a class name, ... */
+	originalType: string;
+	/**
+	 * What was written instead: `null`, `0`, `string`, `array`, `object`, a marker, `dropped`,
+	 * or the items an array kept under `maxTokens` when no `_omitted` note could be added
+	 */
+	conversion: string;
+}
+
+export interface EncodeReport {
+	toon: string;
+	warnings: EncodeWarning[];
+	/** Only with the `sourceMap` option; pointers refer to the input, as with `encodeWithSourceMap` */
+	sourceMap?: SourceMapEntry[];
+	/** Only with the `verify` option */
+	verification?: RoundTripReport;
+	/** Only with the `aliasKeys` option: alias → original key, whether or not it was written as `_legend` */
+	legend?: Record<string, string>;
+}
+
+export interface EncodeReportOptions extends EncodeOptions {
+	/** Add a source map to the report, like `encodeWithSourceMap` */
+	sourceMap?: boolean;
+}
+
+/** Encodes like `encode` and lists every lossy conversion made on the way */
+export function encodeWithReport(input: unknown, options?: EncodeReportOptions): EncodeReport {
+	const resolved: ResolvedOptions = {
+		...resolveEncodeOptions(options),
+		origins: options?.sourceMap ? new WeakMap() : undefined,
+	};
+	const warnings: EncodeWarning[] = [];
+	const legend: Record<string, string> = {};
+	const data = prepareData(input, resolved, warnings);
+	const sourceMap = options?.sourceMap ? [] : undefined;
+	const toon = encodeValue(compactData(data, resolved, warnings, legend), resolved, sourceMap);
+	const report: EncodeReport = { toon, warnings };
+	if (sourceMap) report.sourceMap = sourceMap;
+	if (resolved.aliasKeys) report.legend = legend;
+	if (resolved.verify === 'throw') assertRoundTrip(data, toon, resolved, legend);
+	else if (resolved.verify === 'report') report.verification = verifyRoundTrip(data, toon, resolved, legend);
+	return report;
+}
+
+/**
+ * Stable SHA-256 digest (hex) of the canonical TOON form of `input`.
+ * Deep-equal inputs hash identically regardless of key order.
+ */
+export function toonHash(input: unknown): string {
+	return sha256Hex(encode(input, { canonical: true }));
+}
+
+// Self-contained SHA-256 so the node keeps working without runtime dependencies
+const SHA256_K = [
+	0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+	0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+	0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+	0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+	0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+	0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+	0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+	0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+];
+
+function sha256Hex(text: string): string {
+	const bytes = utf8Bytes(text);
+	const bitLength = bytes.length * 8;
+	bytes.push(0x80);
+	while (bytes.length % 64 !== 56) bytes.push(0);
+	for (const word of [Math.floor(bitLength / 0x100000000), bitLength >>> 0]) {
+		bytes.push((word >>> 24) & 0xff, (word >>> 16) & 0xff, (word >>> 8) & 0xff, word & 0xff);
+	}
+
+	const hash = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+	const w = new Array<number>(64);
+	const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+	for (let offset = 0; offset < bytes.length; offset += 64) {
+		for (let i = 0; i < 16; i++) {
+			const at = offset + i * 4;
+			w[i] = (bytes[at] << 24) | (bytes[at + 1] << 16) | (bytes[at + 2] << 8) | bytes[at + 3];
+		}
+		for (let i = 16; i < 64; i++) {
+			const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+			const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+			w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+		}
+
+		let [a, b, c, d, e, f, g, h] = hash;
+		for (let i = 0; i < 64; i++) {
+			const t1 = (h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i]) | 0;
+			const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+			h = g;
+			g = f;
+			f = e;
+			e = (d + t1) | 0;
+			d = c;
+			c = b;
+			b = a;
+			a = (t1 + t2) | 0;
+		}
+		[a, b, c, d, e, f, g, h].forEach((value, i) => (hash[i] = (hash[i] + value) | 0));
+	}
+
+	return hash.map((word) => (word >>> 0).toString(16).padStart(8, '0')).join('');
 }
 
-function extractTabularHeader(rows: JsonObject[]): string[] | undefined {
-	if (rows.length === 0) return undefined;
+function utf8Bytes(text: string): number[] {
+	const bytes: number[] = [];
+	for (const char of text) {
+		const code = char.codePointAt(0) as number;
+		if (code < 0x80) bytes.push(code);
+		else if (code < 0x800) bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+		else if (code < 0x10000) bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+		else bytes.push(0xf0 | (code >> 18), 0x80 | ((code >> 12) & 0x3f), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+	}
+	return bytes;
+}
 
-	const firstRow = rows[0];
-	if (!isJsonObject(firstRow)) return undefined;
+// ============================
+// TOKEN BUDGET
+// ============================
 
-	const firstKeys = Object.keys(firstRow);
-	if (firstKeys.length === 0) return undefined;
+const OMITTED_KEY = '_omitted';
+const MIN_TRUNCATED_STRING = 16;
+
+/** Something that was cut to fit the token budget */
+export interface Omission {
+	/** JSON path of the array or string, e.g. `users` or `items[3].description` */
+	path: string;
+	type: 'array' | 'string';
+	/** Items or characters left in the output */
+	kept: number;
+	/** Items or characters in the input */
+	total: number;
+}
 
-	if (isTabularArray(rows, firstKeys)) {
-		return firstKeys;
+export interface BudgetResult {
+	toon: string;
+	/** Estimated tokens of `toon` */
+	tokens: number;
+	/** False when the output is still over budget after shrinking everything that can be shrunk */
+	fits: boolean;
+	omitted: Omission[];
+}
+
+type BudgetCandidate = {
+	path: string;
+	type: 'array' | 'string';
+	length: number;
+	size: number;
+};
+
+type ShrinkState = {
+	limits: Map<string, number>;
+	omitted: Omission[];
+	candidates: BudgetCandidate[];
+	/** Arrays whose omission is noted in an `_omitted` key */
+	marked: Set<string>;
+};
+
+/** Rough token count of encoded text, at about 4 characters per token */
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
+
+/**
+ * Encodes `input` within `options.maxTokens`, reporting every array and string that
+ * had to be shrunk. Without a budget this is a plain `encode` with an empty report.
+ */
+export function encodeWithinBudget(input: unknown, options?: EncodeOptions): BudgetResult {
+	const resolved = resolveEncodeOptions(options);
+	const value = prepareValue(input, { ...resolved, maxTokens: undefined });
+	if (resolved.maxTokens === undefined) {
+		const toon = encodeValue(value, resolved);
+		return { toon, tokens: estimateTokens(toon), fits: true, omitted: [] };
 	}
-	return undefined;
+	const { toon, omitted } = fitToBudget(value, resolved);
+	const tokens = estimateTokens(toon);
+	return { toon, tokens, fits: tokens <= resolved.maxTokens, omitted };
 }
 
-function isTabularArray(rows: JsonObject[], header: string[]): boolean {
-	for (const row of rows) {
-		const keys = Object.keys(row);
+/**
+ * Repeatedly halves the largest array (down to one item) or string (down to
+ * MIN_TRUNCATED_STRING characters) until the encoded value fits the budget.
+ * The largest is measured in characters, so one huge string goes before many short rows.
+ * Halvings are planned from the estimated size of each array and string; the document
+ * is only encoded again to check the result of a plan.
+ */
+function fitToBudget(
+	value: JsonValue,
+	options: ResolvedOptions,
+): { value: JsonValue; toon: string; omitted: Omission[]; unmarked: Omission[] } {
+	const maxTokens = options.maxTokens ?? Infinity;
+	const limits = new Map<string, number>();
+
+	for (;;) {
+		const state: ShrinkState = { limits, omitted: [], candidates: [], marked: new Set() };
+		const shrunk = shrinkValue(value, '', state, options);
+		const toon = encodeValue(shrunk.value, options);
+		const tokens = estimateTokens(toon);
+		const unmarked = options.markOmissions
+			? state.omitted.filter((omission) => omission.type === 'array' && !state.marked.has(omission.path))
+			: [];
+		const result = { value: shrunk.value, toon, omitted: state.omitted, unmarked };
+		if (tokens <= maxTokens) return result;
+
+		// Sizes approximate the encoded length, so the excess is converted at the rate seen in this pass
+		let excess = ((tokens - maxTokens) * 4 * Math.max(shrunk.size, 1)) / toon.length;
+		let planned = false;
+		while (excess > 0) {
+			let target: BudgetCandidate | undefined;
+			for (const candidate of state.candidates) {
+				const shrinkable =
+					candidate.type === 'array' ? candidate.length > 1 : candidate.length > MIN_TRUNCATED_STRING;
+				if (shrinkable && (!target || candidate.size > target.size)) target = candidate;
+			}
+			if (!target) break;
+
+			const minimum = target.type === 'array' ? 1 : MIN_TRUNCATED_STRING;
+			const length = Math.max(minimum, Math.floor(target.length / 2));
+			const size = (target.size * length) / target.length;
+			excess -= target.size - size;
+			limits.set(target.path, length);
+			Object.assign(target, { length, size });
+			planned = true;
+		}
+		if (!planned) return result;
+	}
+}
 
-		// All objects must have the same keys (but order can differ)
-		if (keys.length !== header.length) {
-			return false;
+// Rebuilds `value` with the current limits applied; `size` approximates its encoded length
+function shrinkValue(
+	value: JsonValue,
+	path: string,
+	state: ShrinkState,
+	options: ResolvedOptions,
+): { value: JsonValue; size: number } {
+	if (typeof value === 'string') {
+		const limit = state.limits.get(path);
+		const result = limit === undefined ? value : truncateString(value, limit);
+		const length = Math.min(limit ?? Infinity, value.length);
+		if (result !== value) state.omitted.push({ path, type: 'string', kept: length, total: value.length });
+		// Cutting shorter strings would barely outweigh the truncation note
+		if (value.length > 4 * MIN_TRUNCATED_STRING) {
+			state.candidates.push({ path, type: 'string', length, size: result.length });
 		}
+		return { value: result, size: result.length };
+	}
 
-		// Check that all header keys exist in the row and all values are primitives
-		for (const key of header) {
-			if (!(key in row)) {
-				return false;
-			}
-			if (!isJsonPrimitive(row[key])) {
-				return false;
-			}
+	if (isJsonArray(value)) {
+		const indices = sampleIndices(value.length, state.limits.get(path) ?? value.length, options.strategy);
+		if (indices.length < value.length) {
+			state.omitted.push({ path, type: 'array', kept: indices.length, total: value.length });
+		}
+		const items: JsonValue[] = [];
+		let size = 0;
+		for (const index of indices) {
+			// Paths keep the original index, so limits stay attached to the same item
+			const item = shrinkValue(value[index], appendPath(path, index), state, options);
+			items.push(item.value);
+			size += item.size + 1;
 		}
+		state.candidates.push({ path, type: 'array', length: indices.length, size });
+		return { value: carryOrigin(options.origins, value, items, (i) => indices[i as number]), size };
 	}
 
-	return true;
+	if (isJsonObject(value)) {
+		const result: JsonObject = {};
+		const notes: JsonObject = {};
+		let size = 0;
+		for (const key of Object.keys(value)) {
+			const childPath = appendPath(path, key);
+			const omittedBefore = state.omitted.length;
+			const child = shrinkValue(value[key], childPath, state, options);
+			result[key] = child.value;
+			size += key.length + child.size + 2;
+
+			const own = state.omitted.slice(omittedBefore).find((omission) => omission.path === childPath);
+			if (own?.type === 'array') notes[key] = describeOmission(own, options.strategy);
+		}
+		// Omissions that can't be noted here (an `_omitted` key of the input is in the way) become warnings
+		if (options.markOmissions && Object.keys(notes).length > 0 && !(OMITTED_KEY in value)) {
+			result[OMITTED_KEY] = notes;
+			for (const key of Object.keys(notes)) state.marked.add(appendPath(path, key));
+		}
+		return { value: carryOrigin(options.origins, value, result), size };
+	}
+
+	return { value, size: value === null ? 4 : String(value).length };
 }
 
-function writeTabularRows(
-	rows: JsonObject[],
-	header: string[],
-	writer: LineWriter,
-	depth: Depth,
-	options: ResolvedOptions,
-): void {
-	for (const row of rows) {
-		const values = header.map((key) => row[key] as JsonPrimitive);
-		const joinedValue = encodeAndJoinPrimitives(values, options.delimiter);
-		writer.push(depth, joinedValue);
+function sampleIndices(total: number, keep: number, strategy: BudgetStrategy): number[] {
+	const indices = Array.from({ length: Math.min(total, keep) }, (_, i) => i);
+	if (keep >= total || strategy === 'head') return indices;
+	if (strategy === 'headTail') {
+		const headCount = Math.ceil(keep / 2);
+		return indices.map((i) => (i < headCount ? i : total - keep + i));
 	}
+	if (keep === 1) return [0];
+	return indices.map((i) => Math.round((i * (total - 1)) / (keep - 1)));
 }
 
-function encodeMixedArrayAsListItems(
-	prefix: string | undefined,
-	items: JsonValue[],
-	writer: LineWriter,
-	depth: Depth,
-	options: ResolvedOptions,
-): void {
-	const header = formatHeader(items.length, {
-		key: prefix,
-		delimiter: options.delimiter,
-		lengthMarker: options.lengthMarker,
+function describeOmission(omission: Omission, strategy: BudgetStrategy): string {
+	const { kept, total } = omission;
+	if (strategy === 'headTail' && kept > 1) {
+		return `first ${Math.ceil(kept / 2)} and last ${Math.floor(kept / 2)} of ${total} items`;
+	}
+	if (strategy === 'sample' && kept > 1) return `${kept} evenly spaced of ${total} items`;
+	return `first ${kept} of ${total} items`;
+}
+
+function truncateString(value: string, limit: number): string {
+	if (value.length <= limit) return value;
+	return `${value.slice(0, limit)}… (${value.length - limit} more chars)`;
+}
+
+// ============================
+// ENCODING ANALYSIS
+// ============================
+
+export interface ArrayAnalysis {
+	/** JSON path of the array, e.g. `users` or `orders[0].lines`; empty for a root array */
+	path: string;
+	length: number;
+	layout: ArrayLayout;
+	/** Why the layout was chosen, e.g. `row 17 missing key \`email\`` */
+	reason: string;
+	/**
+	 * Estimated tokens of the array on its own, as JSON (indented by 2) and as TOON. They
+	 * include the arrays nested in it, which have entries of their own, so the entries
+	 * do not add up to the document's totals.
+	 */
+	jsonTokens: number;
+	toonTokens: number;
+	/** `jsonTokens - toonTokens`; negative when TOON is larger */
+	savings: number;
+}
+
+export interface EncodingAnalysis {
+	jsonTokens: number;
+	toonTokens: number;
+	savings: number;
+	/** Every array in document order; nested arrays are counted both on their own and in their parents */
+	arrays: ArrayAnalysis[];
+}
+
+/** Explains how `encode` lays out each array and estimates what TOON saves over indented JSON */
+export function analyze(input: unknown, options?: EncodeOptions): EncodingAnalysis {
+	const resolved = resolveEncodeOptions(options);
+	// A separate legend is not part of the output, so it is not counted either
+	const value = prepareValue(input, resolved, undefined, {});
+	const layouts: LayoutRecord[] = [];
+	const toonTokens = estimateTokens(encodeValue(value, { ...resolved, layoutLog: layouts }));
+	const jsonTokens = estimateTokens(JSON.stringify(value, null, 2));
+
+	const arrays = layouts.map(({ path, value: array, layout, reason, options: arrayOptions }): ArrayAnalysis => {
+		const arrayJsonTokens = estimateTokens(JSON.stringify(array, null, 2));
+		// On its own the array is at the root, where an empty pattern forces the recorded layout;
+		// its nested arrays were recorded already
+		const standalone: ResolvedOptions = {
+			...arrayOptions,
+			overrides: [[[], { layout }]],
+			layoutLog: undefined,
+		};
+		const arrayToonTokens = estimateTokens(encodeValue(array, standalone));
+		return {
+			path,
+			length: array.length,
+			layout,
+			reason,
+			jsonTokens: arrayJsonTokens,
+			toonTokens: arrayToonTokens,
+			savings: arrayJsonTokens - arrayToonTokens,
+		};
 	});
-	writer.push(depth, header);
+	return { jsonTokens, toonTokens, savings: jsonTokens - toonTokens, arrays };
+}
 
-	for (const item of items) {
-		encodeListItemValue(item, writer, depth + 1, options);
-	}
+// ============================
+// STREAMING ENCODE
+// ============================
+
+/** Writes the encoded lines of `input` to `sink` instead of building one string */
+export function encodeToSink(input: unknown, sink: LineSink, options?: EncodeOptions): void {
+	const resolved = resolveEncodeOptions(options);
+	encodeRoot(prepareValue(input, resolved), new LineWriter(resolved.indent, sink), resolved);
 }
 
-function encodeListItemValue(
-	value: JsonValue,
-	writer: LineWriter,
-	depth: Depth,
-	options: ResolvedOptions,
-): void {
-	if (isJsonPrimitive(value)) {
-		writer.pushListItem(depth, encodePrimitive(value, options.delimiter));
-	}
-	else if (isJsonArray(value) && isArrayOfPrimitives(value)) {
-		const inline = encodeInlineArrayLine(value as JsonPrimitive[], options.delimiter, undefined, options.lengthMarker);
-		writer.pushListItem(depth, inline);
+/**
+ * Yields the encoded lines of `input`. The input is prepared (normalized, pruned,
+ * fitted to the budget) up front; only the output is produced on demand: the items
+ * of a root array or of a top-level array are encoded one at a time as lines are
+ * pulled, and every other top-level key is encoded in one go. Use encodeStream for
+ * rows that should not be held in memory at all.
+ */
+export function* encodeLines(input: unknown, options?: EncodeOptions): Generator<string, void, undefined> {
+	const resolved = resolveEncodeOptions(options);
+	const value = prepareValue(input, resolved);
+	const documentOptions = resolveDocumentDelimiter(value, resolved);
+	const pending: string[] = [];
+	const writer = new LineWriter(resolved.indent, (line) => pending.push(line));
+
+	if (!isJsonObject(value)) {
+		yield* encodeOnDemand(writer, pending, isJsonArray(value), () => encodeRoot(value, writer, resolved));
+		return;
 	}
-	else if (isJsonObject(value)) {
-		encodeObjectAsListItem(value as JsonObject, writer, depth, options);
+
+	const keys = Object.keys(value);
+	for (const key of keys) {
+		yield* encodeOnDemand(writer, pending, isJsonArray(value[key]), () =>
+			encodeKeyValuePair(key, value[key], writer, 0, documentOptions, keys, ''),
+		);
 	}
 }
 
-function encodeObjectAsListItem(
-	obj: JsonObject,
+// Runs `encode`, holding back the items of the first array it writes when `isArray`, and yields the lines
+function* encodeOnDemand(
 	writer: LineWriter,
-	depth: Depth,
-	options: ResolvedOptions,
-): void {
-	const keys = Object.keys(obj);
-	if (keys.length === 0) {
-		writer.push(depth, LIST_ITEM_MARKER);
-		return;
+	pending: string[],
+	isArray: boolean,
+	encode: () => void,
+): Generator<string, void, undefined> {
+	const loops: [number, (index: number) => void][] = [];
+	if (isArray) writer.deferItems = (count, emit) => loops.push([count, emit]);
+	encode();
+	writer.deferItems = undefined;
+	yield* pending.splice(0);
+	for (const [count, emit] of loops) {
+		for (let index = 0; index < count; index++) {
+			emit(index);
+			yield* pending.splice(0);
+		}
 	}
+}
 
-	// First key-value on the same line as "- "
-	const firstKey = keys[0];
-	const encodedKey = encodeKey(firstKey);
-	const firstValue = obj[firstKey];
+export interface EncodeStreamOptions extends EncodeOptions {
+	/** Key of the streamed array; omit it for a root array */
+	key?: string;
+	/** Column names; defaults to the keys of the first row */
+	fields?: string[];
+	/** Declared row count. When omitted, only rows are yielded and the header is returned for back-patching */
+	length?: number;
+}
 
-	if (isJsonPrimitive(firstValue)) {
-		writer.pushListItem(depth, `${encodedKey}: ${encodePrimitive(firstValue, options.delimiter)}`);
+/**
+ * Encodes rows from an (async) iterable as one tabular array, yielding each line as
+ * soon as its row arrives. With a declared `length` the header is yielded first, an
+ * extra row fails as soon as it arrives and a missing one when the rows run out; without it the header is the only buffered line
+ * and becomes the generator's return value, to be written in front of the rows.
+ * Options that rewrite the whole document (`aliasKeys`, `hoistConstants`, `dictionary`,
+ * `partitionShapes`, `groupBy`) need all rows at once and are rejected.
+ */
+export async function* encodeStream(
+	rows: AsyncIterable<unknown> | Iterable<unknown>,
+	options: EncodeStreamOptions = {},
+): AsyncGenerator<string, string, undefined> {
+	// A budget cannot be fitted before the stream has ended
+	let resolved = resolveEncodeOptions({ ...options, maxTokens: undefined });
+	const unsupported = Object.entries({
+		aliasKeys: resolved.aliasKeys,
+		hoistConstants: resolved.hoistConstants,
+		dictionary: resolved.dictionary,
+		partitionShapes: resolved.partitionShapes,
+		groupBy: resolved.groupBy.length > 0,
+	})
+		.filter(([, used]) => used)
+		.map(([name]) => name);
+	if (unsupported.length > 0) {
+		throw new Error(`encodeStream encodes one row at a time and does not support ${unsupported.join(', ')}`);
 	}
-	else if (isJsonArray(firstValue)) {
-		if (isArrayOfPrimitives(firstValue)) {
-			// Inline format for primitive arrays
-			const formatted = encodeInlineArrayLine(firstValue as JsonPrimitive[], options.delimiter, firstKey, options.lengthMarker);
-			writer.pushListItem(depth, formatted);
+	const rowIndent = ' '.repeat(resolved.indent);
+	let fields = options.fields;
+	let numberFormats: (NumberFormat | undefined)[] | undefined;
+	let headerPending = options.length !== undefined;
+	let count = 0;
+	const arrayPath = options.key === undefined ? '' : appendPath('', options.key);
+	const mismatch = (received: number) =>
+		new EncodeError(`Stream length mismatch: declared ${options.length} rows, but received ${received}`, arrayPath);
+
+	const streamHeader = (length: number) =>
+		formatHeader(length, {
+			encodedKey: options.key === undefined ? undefined : encodeKey(options.key),
+			fields: fields?.length ? fields : undefined,
+			delimiter: resolved.delimiter,
+			lengthMarker: resolved.lengthMarker,
+		});
+
+	for await (const input of rows) {
+		// Fail on the first extra row instead of after a stream that may never end
+		if (options.length !== undefined && count === options.length) throw mismatch(count + 1);
+		const rowPath = appendPath(arrayPath, count);
+		const row = prepareValue(input, resolved);
+		if (!isJsonObject(row)) {
+			throw new EncodeError(`Stream row ${count} is not an object`, rowPath);
 		}
-		else if (isArrayOfObjects(firstValue)) {
-			// Check if array of objects can use tabular format
-			const header = extractTabularHeader(firstValue as JsonObject[]);
-			if (header) {
-				// Tabular format for uniform arrays of objects
-				const headerStr = formatHeader(firstValue.length, {
-					key: firstKey,
-					fields: header,
-					delimiter: options.delimiter,
-					lengthMarker: options.lengthMarker,
-				});
-				writer.pushListItem(depth, headerStr);
-				writeTabularRows(firstValue as JsonObject[], header, writer, depth + 1, options);
+		if (resolved.autoDelimiter) {
+			// Later rows are not known yet, so the first one decides
+			const strings: string[] = [];
+			collectStrings(row, strings, false);
+			resolved = { ...resolved, delimiter: chooseDelimiter(strings), autoDelimiter: undefined };
+		}
+		fields = fields ?? Object.keys(row);
+		numberFormats = numberFormats ?? resolveColumnNumberFormats(fields, resolved);
+		for (const key of Object.keys(row)) {
+			if (!fields.includes(key)) {
+				throw new EncodeError(`Stream row ${count} has field "${key}" that is not in the header`, appendPath(rowPath, key));
 			}
-			else {
-				// Fall back to list format for non-uniform arrays of objects
-				writer.pushListItem(depth, `${encodedKey}[${firstValue.length}]:`);
-				for (const item of firstValue) {
-					if (isJsonObject(item)) {
-						encodeObjectAsListItem(item as JsonObject, writer, depth + 1, options);
-					}
-				}
+			if (!isJsonPrimitive(row[key])) {
+				throw new EncodeError(`Stream row ${count} field "${key}" is not a primitive value`, appendPath(rowPath, key));
 			}
 		}
-		else {
-			// Complex arrays on separate lines (array of arrays, etc.)
-			writer.pushListItem(depth, `${encodedKey}[${firstValue.length}]:`);
 
-			// Encode array contents at depth + 1
-			for (const item of firstValue) {
-				encodeListItemValue(item, writer, depth + 1, options);
-			}
-		}
-	}
-	else if (isJsonObject(firstValue)) {
-		const nestedKeys = Object.keys(firstValue);
-		if (nestedKeys.length === 0) {
-			writer.pushListItem(depth, `${encodedKey}:`);
-		}
-		else {
-			writer.pushListItem(depth, `${encodedKey}:`);
-			encodeObject(firstValue, writer, depth + 2, options);
+		if (headerPending) {
+			yield streamHeader(options.length as number);
+			headerPending = false;
 		}
+		yield rowIndent + encodeTabularRow(row, fields, numberFormats, resolved.delimiter);
+		count++;
 	}
 
-	// Remaining keys on indented lines
-	for (let i = 1; i < keys.length; i++) {
-		const key = keys[i];
-		encodeKeyValuePair(key, obj[key], writer, depth + 1, options);
+	if (headerPending) {
+		yield streamHeader(options.length as number);
 	}
-}
-
-export function encode(input: unknown, options?: EncodeOptions): string {
-	return encodeValue(normalizeValue(input), {
-		indent: options?.indent ?? 2,
-		delimiter: options?.delimiter ?? ',',
-		lengthMarker: options?.lengthMarker ?? false,
-	});
+	if (options.length !== undefined && count !== options.length) throw mismatch(count);
+	return streamHeader(count);
 }
 
 // ============================
@@ -528,6 +2874,46 @@ export function encode(input: unknown, options?: EncodeOptions): string {
 export interface DecodeOptions {
 	strict?: boolean;
 	indent?: number;
+	/**
+	 * Expand unquoted dotted keys (`user.address.city: Berlin`) into nested objects.
+	 * Quoted keys are always kept literally.
+	 */
+	expandPaths?: 'off' | 'safe';
+	/** Drop `null` cells from tabular rows, reversing sparse tabular encoding */
+	sparseTabular?: boolean;
+	/** Rebuild nested objects from unquoted dotted tabular fields, reversing flattened columns */
+	unflattenColumns?: boolean;
+	/** Turn `b64:` and `hex:` prefixed strings into Buffers (`Uint8Array` outside Node) */
+	binary?: boolean;
+	/** Add the columns listed in `_constants` keys back to every row of their tables */
+	injectConstants?: boolean;
+	/**
+	 * Merge the parts of partitioned arrays (`events.click`, `events.purchase`) back into one
+	 * array by `_index`. Only sibling keys of that dotted form are merged; `expandPaths` leaves them as they are.
+	 */
+	mergePartitions?: boolean;
+	/**
+	 * Restore keys shortened by `aliasKeys`: `true` reads and removes the `_legend` key
+	 * of the root, an object is used as the legend (alias → original key)
+	 */
+	legend?: boolean | Record<string, string>;
+	/** Replace codes in tables with the strings listed in `_dictionary` keys, and remove those keys */
+	expandDictionary?: boolean;
+}
+
+function resolveDecodeOptions(options: DecodeOptions): Required<DecodeOptions> {
+	return {
+		strict: options.strict ?? true,
+		indent: options.indent ?? 2,
+		expandPaths: options.expandPaths ?? 'off',
+		sparseTabular: options.sparseTabular ?? false,
+		unflattenColumns: options.unflattenColumns ?? false,
+		binary: options.binary ?? false,
+		injectConstants: options.injectConstants ?? false,
+		mergePartitions: options.mergePartitions ?? false,
+		legend: options.legend ?? false,
+		expandDictionary: options.expandDictionary ?? false,
+	};
 }
 
 type Token = {
@@ -537,12 +2923,15 @@ type Token = {
 	line: number;
 	arrayInfo?: {
 		key?: string;
+		quotedKey?: boolean;
 		length: number;
 		fields?: string[];
+		quotedFields?: boolean[];
 		delimiter: string;
 		inlineValues?: string;
 	};
 	hadTabIndent: boolean;
+	quoted?: boolean;
 };
 
 type IndentInfo = {
@@ -557,10 +2946,7 @@ class Scanner {
 
 	constructor(input: string, options: DecodeOptions = {}) {
 		this.lines = input.split('\n');
-		this.options = {
-			strict: options.strict ?? true,
-			indent: options.indent ?? 2,
-		};
+		this.options = resolveDecodeOptions(options);
 	}
 
 	scan(): Token[] {
@@ -654,6 +3040,7 @@ class Scanner {
 							indent,
 							line: i,
 							hadTabIndent,
+							quoted: isQuotedKey,
 						});
 
 						this.tokens.push({
@@ -774,15 +3161,19 @@ class Scanner {
 			delimiter = delimiterInHeader;
 		}
 
+		const rawKey = key?.trim();
 		const result: Token['arrayInfo'] = {
-			key: key?.trim() || undefined,
+			key: rawKey ? this.unescapeKey(rawKey) : undefined,
+			quotedKey: rawKey?.startsWith('"'),
 			length: parseInt(lengthStr, 10),
 			delimiter,
 		};
 
 		// Parse fields if present
 		if (fieldsStr) {
-			result.fields = this.splitByDelimiter(fieldsStr, delimiter).map((f) => this.unescapeKey(f.trim()));
+			const rawFields = this.splitByDelimiter(fieldsStr, delimiter).map((f) => f.trim());
+			result.fields = rawFields.map((f) => this.unescapeKey(f));
+			result.quotedFields = rawFields.map((f) => f.startsWith('"'));
 		}
 
 		// Capture inline values if present
@@ -881,9 +3272,11 @@ class Scanner {
 class Parser {
 	private tokens: Token[];
 	private position = 0;
+	private options: Required<DecodeOptions>;
 
-	constructor(tokens: Token[]) {
+	constructor(tokens: Token[], options: DecodeOptions = {}) {
 		this.tokens = tokens;
+		this.options = resolveDecodeOptions(options);
 	}
 
 	parse(): JsonValue {
@@ -906,6 +3299,7 @@ class Parser {
 		// Multiple top-level keys or single object
 		// Collect all tokens at root indent level (0)
 		const result: JsonObject = {};
+		const literalKeys = new Set<string>();
 		
 		while (this.position < this.tokens.length) {
 			const token = this.current();
@@ -915,11 +3309,13 @@ class Parser {
 
 			if (token.type === 'ARRAY_HEADER' && token.arrayInfo?.key) {
 				const key = token.arrayInfo.key;
+				if (token.arrayInfo.quotedKey) literalKeys.add(key);
 				const array = this.parseArray();
 				result[key] = array;
 			}
 			else if (token.type === 'KEY') {
 				const key = token.value;
+				if (token.quoted) literalKeys.add(key);
 				this.advance(); // Move past KEY
 
 				// Expect COLON
@@ -946,8 +3342,8 @@ class Parser {
 				else if (!nextToken || nextToken.type === 'EOF' || nextToken.indent > token.indent || isCompactNested) {
 					const nextIndent = nextToken?.indent ?? token.indent + 1;
 
-					// Check if next is array header
-					if (nextToken?.type === 'ARRAY_HEADER') {
+					// Check if next is array header; one with its own key is a field of a nested object
+					if (nextToken?.type === 'ARRAY_HEADER' && !nextToken.arrayInfo?.key) {
 						result[key] = this.parseArray();
 					}
 					// Check if next is list item
@@ -955,7 +3351,7 @@ class Parser {
 						result[key] = this.parseListItems(nextIndent);
 					}
 					// Nested object
-					else if (nextToken?.type === 'KEY') {
+					else if (nextToken?.type === 'KEY' || nextToken?.type === 'ARRAY_HEADER') {
 						result[key] = this.parseObject(nextIndent);
 					}
 					else {
@@ -985,7 +3381,7 @@ class Parser {
 			return null;
 		}
 		
-		return result;
+		return this.expandPaths(result, (key) => !literalKeys.has(key));
 	}
 
 	private current(): Token {
@@ -998,6 +3394,7 @@ class Parser {
 
 	private parseObject(baseIndent: number): JsonObject {
 		const result: JsonObject = {};
+		const literalKeys = new Set<string>();
 
 		while (this.position < this.tokens.length) {
 			const token = this.current();
@@ -1008,6 +3405,7 @@ class Parser {
 
 	if (token.type === 'KEY') {
 		const key = token.value;
+		if (token.quoted) literalKeys.add(key);
 		this.advance(); // Move past KEY
 
 		// Expect COLON
@@ -1038,8 +3436,8 @@ class Parser {
 		else if (!nextToken || nextToken.type === 'EOF' || nextToken.indent > token.indent || isCompactNested) {
 			const nextIndent = nextToken?.indent ?? token.indent + 1;
 
-			// Check if next is array header
-			if (nextToken?.type === 'ARRAY_HEADER') {
+			// Check if next is array header; one with its own key is a field of a nested object
+			if (nextToken?.type === 'ARRAY_HEADER' && !nextToken.arrayInfo?.key) {
 				result[key] = this.parseArray();
 			}
 			// Check if next is list item
@@ -1047,7 +3445,7 @@ class Parser {
 				result[key] = this.parseListItems(nextIndent);
 			}
 			// Nested object
-			else if (nextToken?.type === 'KEY') {
+			else if (nextToken?.type === 'KEY' || nextToken?.type === 'ARRAY_HEADER') {
 				result[key] = this.parseObject(nextIndent);
 			}
 			else {
@@ -1067,6 +3465,7 @@ class Parser {
 		// Handle ARRAY_HEADER tokens that appear as object fields (e.g., data[0]:)
 		else if (token.type === 'ARRAY_HEADER' && token.arrayInfo?.key) {
 			const key = token.arrayInfo.key;
+			if (token.arrayInfo.quotedKey) literalKeys.add(key);
 			result[key] = this.parseArray();
 		}
 		else {
@@ -1074,7 +3473,7 @@ class Parser {
 		}
 		}
 
-		return result;
+		return this.expandPaths(result, (key) => !literalKeys.has(key));
 	}
 
 	private parseArray(): JsonArray {
@@ -1085,7 +3484,7 @@ class Parser {
 			return [];
 		}
 
-		const { length, fields, delimiter, inlineValues } = headerToken.arrayInfo;
+		const { length, fields, quotedFields, delimiter, inlineValues } = headerToken.arrayInfo;
 		const arrayIndent = headerToken.indent;
 
 		this.advance(); // Move past array header
@@ -1125,6 +3524,11 @@ class Parser {
 			if (rowCount !== length) {
 				throw new Error(`Tabular array row count mismatch: expected ${length} rows, but found ${rowCount}`);
 			}
+
+			// Unquoted dotted fields of flattened columns map back to nested paths
+			const columnPaths = fields.map((field, j) =>
+				this.options.unflattenColumns && !quotedFields?.[j] && isExpandablePath(field) ? field.split('.') : [field],
+			);
 			
 			for (let i = 0; i < length; i++) {
 				const rowToken = this.current();
@@ -1144,8 +3548,9 @@ class Parser {
 					const obj: JsonObject = {};
 
 					for (let j = 0; j < fields.length; j++) {
-						const value = values[j]?.trim() || '';
-						obj[fields[j]] = this.parsePrimitive(value);
+						const value = this.parsePrimitive(values[j]?.trim() || '');
+						if (value === null && this.options.sparseTabular) continue;
+						setPath(obj, columnPaths[j], value);
 					}
 
 					result.push(obj);
@@ -1249,6 +3654,7 @@ class Parser {
 							key: actualKey,
 							length: keyArrayMatch.length,
 							fields: keyArrayMatch.fields,
+							quotedFields: keyArrayMatch.quotedFields,
 							delimiter: keyArrayMatch.delimiter,
 						}
 					};
@@ -1269,7 +3675,7 @@ class Parser {
 					Object.assign(obj, nestedObj);
 				}
 					
-					result.push(obj);
+					result.push(this.expandPaths(obj, (k) => k === actualKey));
 					continue;
 				}
 
@@ -1296,6 +3702,7 @@ class Parser {
 							arrayInfo: {
 								length: arrayMatch.length,
 								fields: arrayMatch.fields,
+								quotedFields: arrayMatch.quotedFields,
 								delimiter: arrayMatch.delimiter,
 							}
 						};
@@ -1330,7 +3737,7 @@ class Parser {
 					// Empty value, check for nested content
 					const nextToken = this.current();
 					if (nextToken && nextToken.indent > itemIndent) {
-						if (nextToken.type === 'KEY') {
+						if (nextToken.type === 'KEY' || nextToken.arrayInfo?.key) {
 							obj[this.unescapeKey(key)] = this.parseObject(nextToken.indent);
 						}
 						else if (nextToken.type === 'ARRAY_HEADER') {
@@ -1346,9 +3753,16 @@ class Parser {
 					else {
 						obj[this.unescapeKey(key)] = {};
 					}
+
+					// Check for additional properties after the nested content
+					const following = this.current();
+					if (following && following.indent > itemIndent && (following.type === 'KEY' || following.type === 'ARRAY_HEADER')) {
+						Object.assign(obj, this.parseObject(following.indent));
+					}
 				}
 
-				result.push(obj);
+				const firstKey = this.unescapeKey(key);
+				result.push(this.expandPaths(obj, (k) => k === firstKey && !key.startsWith('"')));
 			}
 			else {
 				// Plain value or inline array
@@ -1365,6 +3779,53 @@ class Parser {
 		return result;
 	}
 
+	/**
+	 * Rebuilds an object with unquoted dotted keys expanded into nested objects,
+	 * deep-merging paths that share a prefix. Only keys accepted by `expandable`
+	 * are split; nested values were already expanded by their own parse call.
+	 */
+	private expandPaths(obj: JsonObject, expandable: (key: string) => boolean): JsonObject {
+		if (this.options.expandPaths !== 'safe') return obj;
+
+		const result: JsonObject = {};
+		for (const key of Object.keys(obj)) {
+			// Parts of a partitioned array keep their dotted key, which is what mergePartitions looks for
+			const partition = this.options.mergePartitions && isPartition(obj[key]);
+			const segments = expandable(key) && isExpandablePath(key) && !partition ? key.split('.') : [key];
+			this.mergePath(result, segments, obj[key]);
+		}
+		return result;
+	}
+
+	private mergePath(target: JsonObject, segments: string[], value: JsonValue): void {
+		let node = target;
+		for (let i = 0; i < segments.length - 1; i++) {
+			const segment = segments[i];
+			const existing = node[segment];
+			if (!isJsonObject(existing)) {
+				if (existing !== undefined) this.reportPathConflict(segments.slice(0, i + 1), existing);
+				node[segment] = {};
+			}
+			node = node[segment] as JsonObject;
+		}
+
+		const last = segments[segments.length - 1];
+		const existing = node[last];
+		if (isJsonObject(existing) && isJsonObject(value)) {
+			for (const key of Object.keys(value)) this.mergePath(existing, [key], value[key]);
+			return;
+		}
+		if (existing !== undefined) this.reportPathConflict(segments, existing);
+		node[last] = value;
+	}
+
+	private reportPathConflict(segments: string[], existing: JsonValue): void {
+		// Non-strict mode resolves conflicts with last-write-wins
+		if (!this.options.strict) return;
+		const found = existing === null ? 'null' : isJsonArray(existing) ? 'array' : typeof existing;
+		throw new Error(`Path expansion conflict at "${segments.join('.')}": cannot merge into existing ${found} value`);
+	}
+
 	private parseInlineArray(info: { length: number; fields?: string[]; delimiter: string; valuesStr: string }): JsonArray {
 		const result: JsonArray = [];
 		const values = this.splitByDelimiter(info.valuesStr, info.delimiter);
@@ -1381,7 +3842,7 @@ class Parser {
 		return result;
 	}
 
-	private parseArrayHeaderString(str: string): { key?: string; length: number; fields?: string[]; delimiter: string; valuesStr: string } | null {
+	private parseArrayHeaderString(str: string): { key?: string; length: number; fields?: string[]; quotedFields?: boolean[]; delimiter: string; valuesStr: string } | null {
 		const arrayPattern = /^(?:([^[\]]+))?\[([#])?(\d+)([,\t|])?\](?:\{([^}]+)\})?:\s*(.*)$/;
 		const match = str.match(arrayPattern);
 
@@ -1394,15 +3855,17 @@ class Parser {
 			delimiter = delimiterInHeader;
 		}
 
-		const result: { key?: string; length: number; fields?: string[]; delimiter: string; valuesStr: string } = {
-			key: key?.trim() || undefined,
+		const result: { key?: string; length: number; fields?: string[]; quotedFields?: boolean[]; delimiter: string; valuesStr: string } = {
+			key: key?.trim() ? this.unescapeKey(key.trim()) : undefined,
 			length: parseInt(lengthStr, 10),
 			delimiter,
 			valuesStr: valuesStr || '',
 		};
 
 		if (fieldsStr) {
-			result.fields = this.splitByDelimiter(fieldsStr, delimiter).map((f) => this.unescapeKey(f.trim()));
+			const rawFields = this.splitByDelimiter(fieldsStr, delimiter).map((f) => f.trim());
+			result.fields = rawFields.map((f) => this.unescapeKey(f));
+			result.quotedFields = rawFields.map((f) => f.startsWith('"'));
 		}
 
 		return result;
@@ -1556,6 +4019,261 @@ export function decode(input: string, options?: DecodeOptions): JsonValue {
 	const scanner = new Scanner(input, options);
 	const tokens = scanner.scan();
 	
-	const parser = new Parser(tokens);
-	return parser.parse();
+	const parser = new Parser(tokens, options);
+	let result = parser.parse();
+	if (options?.legend) result = restoreAliasedKeys(result, options.legend);
+	if (options?.expandDictionary) result = expandDictionaryCodes(result);
+	if (options?.injectConstants) result = injectConstantColumns(result);
+	if (options?.mergePartitions) result = mergePartitionedArrays(result);
+	return options?.binary ? reviveBinary(result) : result;
+}
+
+// Reverses dictionary encoding: codes in the columns listed in `_dictionary` become their strings
+function expandDictionaryCodes(value: JsonValue): JsonValue {
+	if (isJsonArray(value)) return value.map(expandDictionaryCodes);
+	if (!isJsonObject(value)) return value;
+
+	const dictionaries = value[DICTIONARY_KEY];
+	const result: JsonObject = {};
+	for (const key of Object.keys(value)) {
+		if (key === DICTIONARY_KEY && isJsonObject(dictionaries)) continue;
+		const child = expandDictionaryCodes(value[key]);
+		const columns = isJsonObject(dictionaries) ? dictionaries[key] : undefined;
+		result[key] = isJsonArray(child) && isJsonObject(columns) ? expandColumns(child, columns) : child;
+	}
+	return result;
+}
+
+function expandColumns(rows: JsonArray, columns: JsonObject): JsonArray {
+	const lookups = new Map<string, Map<JsonValue, JsonValue>>();
+	for (const column of Object.keys(columns)) {
+		const entries = columns[column];
+		if (!isJsonArray(entries)) continue;
+		lookups.set(column, new Map(entries.filter(isJsonObject).map((entry) => [entry.code, entry.value])));
+	}
+	return rows.map((row) => {
+		if (!isJsonObject(row)) return row;
+		const expanded: JsonObject = {};
+		for (const column of Object.keys(row)) {
+			const lookup = lookups.get(column);
+			expanded[column] = lookup?.has(row[column]) ? (lookup.get(row[column]) as JsonValue) : row[column];
+		}
+		return expanded;
+	});
+}
+
+// Reverses key aliasing, with the given legend or the one in the root's `_legend` key
+function restoreAliasedKeys(value: JsonValue, legend: true | Record<string, string>): JsonValue {
+	let entries = legend === true ? undefined : legend;
+	if (legend === true && isJsonObject(value) && isJsonObject(value[LEGEND_KEY])) {
+		const { [LEGEND_KEY]: inline, ...rest } = value;
+		entries = inline as Record<string, string>;
+		value = rest;
+	}
+	if (!entries) return value;
+	const names = new Map(Object.entries(entries).filter(([, key]) => typeof key === 'string'));
+	return renameKeys(value, names);
+}
+
+/**
+ * Reverses shape partitioning. Parts are arrays whose rows all have an `_index`, found
+ * as two or more dotted sibling keys (`events.click`, `events.purchase`) for a key that is not taken.
+ */
+function mergePartitionedArrays(value: JsonValue): JsonValue {
+	if (isJsonArray(value)) return value.map(mergePartitionedArrays);
+	if (!isJsonObject(value)) return value;
+
+	const children = new Map<string, JsonValue>();
+	// Keys of the parts of each partitioned array, by the array's key
+	const partKeys = new Map<string, string[]>();
+	for (const key of Object.keys(value)) {
+		const child = mergePartitionedArrays(value[key]);
+		children.set(key, child);
+		const dot = key.lastIndexOf('.');
+		if (dot > 0 && isPartition(child)) {
+			const base = key.slice(0, dot);
+			partKeys.set(base, [...(partKeys.get(base) ?? []), key]);
+		}
+	}
+
+	const result: JsonObject = {};
+	for (const [key, child] of children) {
+		const base = key.slice(0, key.lastIndexOf('.'));
+		const parts = partKeys.get(base);
+		// Partitioning always writes two or more parts and removes the array's own key
+		if (!parts?.includes(key) || parts.length < 2 || base in value) {
+			result[key] = child;
+		}
+		else if (parts[0] === key) {
+			// The merged array takes the position of its first part
+			result[base] = mergeParts(parts.map((part) => children.get(part) as JsonArray));
+		}
+	}
+	return result;
+}
+
+function isPartition(value: JsonValue): boolean {
+	return (
+		isJsonArray(value) &&
+		value.length > 0 &&
+		value.every((row) => isJsonObject(row) && typeof row[PARTITION_INDEX_KEY] === 'number')
+	);
+}
+
+function mergeParts(parts: JsonArray[]): JsonArray {
+	const rows = (parts.flat() as JsonObject[]).sort(
+		(a, b) => (a[PARTITION_INDEX_KEY] as number) - (b[PARTITION_INDEX_KEY] as number),
+	);
+	return rows.map((row) => {
+		const rest: JsonObject = {};
+		for (const key of Object.keys(row)) if (key !== PARTITION_INDEX_KEY) rest[key] = row[key];
+		return rest;
+	});
+}
+
+// Reverses constant hoisting: columns from `_constants` are appended to each row
+function injectConstantColumns(value: JsonValue): JsonValue {
+	if (isJsonArray(value)) return value.map(injectConstantColumns);
+	if (!isJsonObject(value)) return value;
+
+	const constants = value[CONSTANTS_KEY];
+	const result: JsonObject = {};
+	for (const key of Object.keys(value)) {
+		if (key === CONSTANTS_KEY && isJsonObject(constants)) continue;
+		let child = injectConstantColumns(value[key]);
+		const columns = isJsonObject(constants) ? constants[key] : undefined;
+		if (isJsonArray(child) && isJsonObject(columns)) {
+			const { [CONSTANTS_ORDER_KEY]: order, ...values } = columns;
+			child = child.map((row) => (isJsonObject(row) ? injectColumns(row, values, order) : row));
+		}
+		result[key] = child;
+	}
+	return result;
+}
+
+// Columns go where `order` puts them, or after the row's own ones without it
+function injectColumns(row: JsonObject, columns: JsonObject, order: JsonValue | undefined): JsonObject {
+	const result: JsonObject = {};
+	if (isJsonArray(order)) {
+		for (const column of order) {
+			if (typeof column !== 'string') continue;
+			if (column in columns) result[column] = columns[column];
+			else if (column in row) result[column] = row[column];
+		}
+	}
+	return Object.assign(result, row, columns);
+}
+
+// Node's Buffer when available; Node typings are not part of this project
+declare const Buffer: { from(buffer: ArrayBufferLike): Uint8Array } | undefined;
+
+function reviveBinary(value: JsonValue): JsonValue {
+	if (isJsonArray(value)) return value.map(reviveBinary);
+	if (isJsonObject(value)) {
+		const result: JsonObject = {};
+		for (const key of Object.keys(value)) result[key] = reviveBinary(value[key]);
+		return result;
+	}
+	if (typeof value !== 'string') return value;
+
+	let bytes: Uint8Array | undefined;
+	if (value.startsWith(BASE64_PREFIX)) bytes = fromBase64(value.slice(BASE64_PREFIX.length));
+	else if (value.startsWith(HEX_PREFIX)) bytes = fromHex(value.slice(HEX_PREFIX.length));
+	if (!bytes) return value;
+	// Not a JSON value, but what the caller asked for
+	return (typeof Buffer === 'undefined' ? bytes : Buffer.from(bytes.buffer)) as unknown as JsonValue;
+}
+
+// ============================
+// ROUND-TRIP VERIFICATION
+// ============================
+
+/** Whether the output decodes back to the encoded data */
+export interface RoundTripReport {
+	ok: boolean;
+	/** The first difference, in document order */
+	difference?: RoundTripDifference;
+}
+
+export interface RoundTripDifference {
+	/** JSON path of the differing value, e.g. `users[0].tags`; empty for the root */
+	path: string;
+	/** What went wrong, e.g. `expected 3, decoded "3"` or `key order differs` */
+	message: string;
+}
+
+function assertRoundTrip(data: JsonValue, toon: string, options: ResolvedOptions, legend?: Record<string, string>): void {
+	const { difference } = verifyRoundTrip(data, toon, options, legend);
+	if (difference) {
+		throw new EncodeError(
+			`Round trip differs at ${describePath(difference.path)}: ${difference.message}`,
+			difference.path,
+		);
+	}
+}
+
+// Decodes with the options that reverse the encode options, then compares with the data before those
+// encodings. Override indents are multiples of the document indent, so one indent reads every line.
+function verifyRoundTrip(
+	data: JsonValue,
+	toon: string,
+	options: ResolvedOptions,
+	legend?: Record<string, string>,
+): RoundTripReport {
+	let decoded: JsonValue;
+	try {
+		decoded = decode(toon, {
+			indent: options.indent || 2,
+			expandPaths: options.keyFolding,
+			sparseTabular: options.sparseTabular,
+			unflattenColumns: options.flattenColumns,
+			mergePartitions: options.partitionShapes !== undefined,
+			injectConstants: options.hoistConstants !== undefined,
+			expandDictionary: options.dictionary !== undefined,
+			legend: options.aliasKeys && (options.aliasKeys.legend === 'inline' || legend),
+		});
+	} catch (error) {
+		return { ok: false, difference: { path: '', message: `output does not decode: ${(error as Error).message}` } };
+	}
+	// An empty object encodes to an empty document, which decodes to null
+	if (toon === '' && isJsonObject(data) && Object.keys(data).length === 0) decoded = {};
+
+	const difference = findDifference(data, decoded, '');
+	return difference ? { ok: false, difference } : { ok: true };
+}
+
+function findDifference(expected: JsonValue, actual: JsonValue, path: string): RoundTripDifference | undefined {
+	if (isJsonArray(expected) && isJsonArray(actual)) {
+		if (expected.length !== actual.length) {
+			return { path, message: `expected ${expected.length} items, decoded ${actual.length}` };
+		}
+		for (let i = 0; i < expected.length; i++) {
+			const difference = findDifference(expected[i], actual[i], appendPath(path, i));
+			if (difference) return difference;
+		}
+		return undefined;
+	}
+	if (isJsonObject(expected) && isJsonObject(actual)) {
+		const expectedKeys = Object.keys(expected);
+		const actualKeys = Object.keys(actual);
+		const missing = expectedKeys.find((key) => !(key in actual));
+		if (missing !== undefined) return { path: appendPath(path, missing), message: 'missing after decoding' };
+		const extra = actualKeys.find((key) => !(key in expected));
+		if (extra !== undefined) return { path: appendPath(path, extra), message: 'not in the encoded data' };
+		for (const key of expectedKeys) {
+			const difference = findDifference(expected[key], actual[key], appendPath(path, key));
+			if (difference) return difference;
+		}
+		if (expectedKeys.some((key, i) => actualKeys[i] !== key)) {
+			return { path, message: `key order differs: expected ${expectedKeys.join(', ')}, decoded ${actualKeys.join(', ')}` };
+		}
+		return undefined;
+	}
+	if (expected === actual) return undefined;
+	return { path, message: `expected ${describeJson(expected)}, decoded ${describeJson(actual)}` };
+}
+
+function describeJson(value: JsonValue): string {
+	const json = JSON.stringify(value);
+	return json.length > 40 ? `${json.slice(0, 39)}…` : json;
 }
@@ -1,6 +1,6 @@
 /* eslint-disable @n8n/community-nodes/no-restricted-imports */
 import { describe, expect, it } from 'vitest';
-import { decode, encode } from './setup';
+import { decode, encode, encodeWithReport } from './setup';
 
 /**
  * TOON Decode Tests
@@ -223,6 +223,18 @@ describe('Complex Structures', () => {
 		};
 		expect(decode(toon)).toEqual(expected);
 	});
+
+	it('decodes nested objects whose first key is an array', () => {
+		const toon = 'a: 1\nx:\n  t[1]{c,v}:\n    1,2\n  k: 1';
+		expect(JSON.stringify(decode(toon))).toBe(JSON.stringify({ a: 1, x: { t: [{ c: 1, v: 2 }], k: 1 } }));
+		expect(decode('x:\n  [2]: 1,2')).toEqual({ x: [1, 2] });
+	});
+
+	it('keeps list item fields that follow a nested object', () => {
+		const input = { list: [{ x: { t: [{ a: 1 }], k: 2 }, z: 3 }, { x: { k: 4 }, z: 5, w: [1] }] };
+		const toon = encode(input);
+		expect(JSON.stringify(decode(toon))).toBe(JSON.stringify(input));
+	});
 });
 
 describe('Round-trip Encoding/Decoding', () => {
@@ -418,5 +430,342 @@ describe('Quoted String Edge Cases', () => {
 		const expected = { text: 'Column1\tColumn2' };
 		expect(decode(toon)).toEqual(expected);
 	});
+
+	it('unquotes quoted array header keys', () => {
+		const toon = '"a b"[2]: 1,2\nlist[1]:\n  - "k x"[1]: 3\n    z: 1';
+		expect(JSON.stringify(decode(toon))).toBe(JSON.stringify({ 'a b': [1, 2], list: [{ 'k x': [3], z: 1 }] }));
+	});
+
+	it('keeps quoted dotted array header keys literal when expanding paths', () => {
+		const toon = '"c.d"[1]: 3\ne.f[1]: 4';
+		expect(JSON.stringify(decode(toon, { expandPaths: 'safe' }))).toBe(JSON.stringify({ 'c.d': [3], e: { f: [4] } }));
+	});
+});
+
+
+describe('Path Expansion', () => {
+	it('keeps dotted keys literal by default', () => {
+		const toon = 'user.address.city: Berlin';
+		expect(decode(toon)).toEqual({ 'user.address.city': 'Berlin' });
+	});
+
+	it('expands dotted keys into nested objects', () => {
+		const toon = 'user.address.city: Berlin';
+		const expected = { user: { address: { city: 'Berlin' } } };
+		expect(decode(toon, { expandPaths: 'safe' })).toEqual(expected);
+	});
+
+	it('deep-merges dotted keys that share a prefix', () => {
+		const toon = 'user.name: Ada\nuser.address.city: Berlin\nuser:\n  address:\n    zip: 10115';
+		const expected = { user: { name: 'Ada', address: { city: 'Berlin', zip: 10115 } } };
+		expect(decode(toon, { expandPaths: 'safe' })).toEqual(expected);
+	});
+
+	it('expands dotted keys of nested objects, arrays and list items', () => {
+		const toon = 'data:\n  meta.total: 2\n  result.tags[2]: a,b\nitems[1]:\n  - meta.id: 1\n    name: x';
+		const expected = {
+			data: { meta: { total: 2 }, result: { tags: ['a', 'b'] } },
+			items: [{ meta: { id: 1 }, name: 'x' }],
+		};
+		expect(decode(toon, { expandPaths: 'safe' })).toEqual(expected);
+	});
+
+	it('keeps quoted dotted keys literal', () => {
+		const toon = '"a.b": 1\na.c: 2';
+		expect(decode(toon, { expandPaths: 'safe' })).toEqual({ 'a.b': 1, a: { c: 2 } });
+	});
+
+	it('throws on conflicts with primitives in strict mode', () => {
+		const toon = 'user: Ada\nuser.name: Ada';
+		expect(() => decode(toon, { expandPaths: 'safe' })).toThrow(/Path expansion conflict at "user"/);
+	});
+
+	it('applies last-write-wins on conflicts in non-strict mode', () => {
+		const toon = 'user: Ada\nuser.name: Ada\nlimit.max: 5\nlimit: 10';
+		const expected = { user: { name: 'Ada' }, limit: 10 };
+		expect(decode(toon, { expandPaths: 'safe', strict: false })).toEqual(expected);
+	});
+
+	it('round-trips folded keys', () => {
+		const input = { data: { attributes: { profile: { name: 'Ada' } } }, 'a.b': 1, c: { d: [1, 2] } };
+		const toon = encode(input, { keyFolding: 'safe' });
+		const decoded = decode(toon, { expandPaths: 'safe' });
+		expect(decoded).toEqual(input);
+		expect(Object.keys(decoded as object)).toEqual(['data', 'a.b', 'c']);
+	});
+});
+
+describe('Sparse Tabular Arrays', () => {
+	it('keeps null cells by default', () => {
+		const toon = 'rows[2]{id,email}:\n  1,a@example.com\n  2,null';
+		expect(decode(toon)).toEqual({ rows: [{ id: 1, email: 'a@example.com' }, { id: 2, email: null }] });
+	});
+
+	it('drops null cells when sparseTabular is enabled', () => {
+		const toon = 'rows[2]{id,email}:\n  1,a@example.com\n  2,null';
+		expect(decode(toon, { sparseTabular: true })).toEqual({ rows: [{ id: 1, email: 'a@example.com' }, { id: 2 }] });
+	});
+
+	it('round-trips sparse rows', () => {
+		const input = {
+			contacts: [
+				{ id: 1, name: 'Ada', email: 'ada@example.com' },
+				{ id: 2, name: 'Bob' },
+				{ id: 3, name: 'Cy', email: 'cy@example.com' },
+			],
+		};
+		const toon = encode(input, { sparseTabular: true });
+		expect(toon).toContain('contacts[3]{id,name,email}:');
+		expect(JSON.stringify(decode(toon, { sparseTabular: true }))).toBe(JSON.stringify(input));
+	});
+
+	it('round-trips rows with null values and differing key order as lists', () => {
+		const input = {
+			withNull: [{ id: 1, email: null }, { id: 2, email: 'b@example.com' }, { id: 3 }],
+			reordered: [{ id: 1, name: 'Ada' }, { name: 'Bob', id: 2 }, { id: 3 }],
+		};
+		const toon = encode(input, { sparseTabular: true, sparseThreshold: 0 });
+		expect(toon).toContain('withNull[3]:\n');
+		expect(toon).toContain('reordered[3]:\n');
+		expect(JSON.stringify(decode(toon, { sparseTabular: true }))).toBe(JSON.stringify(input));
+	});
+
+	it('round-trips uniform rows with null values', () => {
+		const input = { rows: [{ id: 1, email: null }, { id: 2, email: 'x' }] };
+		const toon = encode(input, { sparseTabular: true });
+		expect(toon).toBe('rows[2]:\n  - id: 1\n    email: null\n  - id: 2\n    email: x');
+		expect(decode(toon, { sparseTabular: true })).toEqual(input);
+		expect(encode(input, { sparseTabular: true, verify: 'throw' })).toBe(toon);
+	});
 });
 
+describe('Flattened Tabular Columns', () => {
+	it('keeps dotted fields literal by default', () => {
+		const toon = 'people[1]{id,address.city}:\n  1,Berlin';
+		expect(decode(toon)).toEqual({ people: [{ id: 1, 'address.city': 'Berlin' }] });
+	});
+
+	it('rebuilds nested objects from dotted fields', () => {
+		const toon = 'people[1]{id,address.city,address.geo.lat}:\n  1,Berlin,52.5';
+		const expected = { people: [{ id: 1, address: { city: 'Berlin', geo: { lat: 52.5 } } }] };
+		expect(decode(toon, { unflattenColumns: true })).toEqual(expected);
+	});
+
+	it('keeps quoted dotted fields literal', () => {
+		const toon = 'rows[1]{"a.b",c.d}:\n  1,2';
+		expect(decode(toon, { unflattenColumns: true })).toEqual({ rows: [{ 'a.b': 1, c: { d: 2 } }] });
+	});
+
+	it('round-trips flattened rows, including inside list items', () => {
+		const input = {
+			groups: [
+				{
+					people: [
+						{ id: 1, address: { city: 'Berlin', zip: '10115' } },
+						{ id: 2, address: { city: 'Paris', zip: '75001' } },
+					],
+					tags: [{ 'x.y': true }],
+				},
+			],
+		};
+		const toon = encode(input, { flattenColumns: true });
+		expect(toon).toContain('people[2]{id,address.city,address.zip}:');
+		expect(toon).toContain('tags[1]{"x.y"}:');
+		expect(decode(toon, { unflattenColumns: true })).toEqual(input);
+	});
+
+	it('keeps the position of rebuilt objects among the other fields', () => {
+		const input = { rows: [{ id: 1, address: { city: 'Berlin', zip: '10115' }, name: 'Ada' }] };
+		const decoded = decode(encode(input, { flattenColumns: true }), { unflattenColumns: true }) as typeof input;
+		expect(Object.keys(decoded.rows[0])).toEqual(['id', 'address', 'name']);
+	});
+});
+
+describe('Formatted Numbers', () => {
+	it('parses plain decimals, fixed precision and rounded output', () => {
+		const input = { big: 1e21, tiny: 1e-7, sum: 0.1 + 0.2, items: [{ price: 2.5 }, { price: 10 }] };
+		const toon = encode(input, { numberFormat: { maxFractionDigits: 7, plainDecimal: true, trimTrailingZeros: false } });
+		expect(toon).toBe('big: 1000000000000000000000\ntiny: 0.0000001\nsum: 0.3000000\nitems[2]{price}:\n  2.5000000\n  10.0000000');
+		expect(decode(toon)).toEqual({ big: 1e21, tiny: 1e-7, sum: 0.3, items: [{ price: 2.5 }, { price: 10 }] });
+	});
+});
+
+describe('Binary Values', () => {
+	it('turns prefixed strings into Buffers', () => {
+		const result = decode('hash: "hex:00ff10"\nicon: "b64:aGk="\nplain: "hex:not-hex"', { binary: true }) as Record<string, unknown>;
+		expect(result.hash).toBeInstanceOf(Uint8Array);
+		expect((result.hash as object).constructor.name).toBe('Buffer');
+		expect(Array.from(result.hash as Uint8Array)).toEqual([0, 255, 16]);
+		expect(Array.from(result.icon as Uint8Array)).toEqual([104, 105]);
+		expect(result.plain).toBe('hex:not-hex');
+	});
+
+	it('keeps prefixed strings without the option', () => {
+		expect(decode('icon: "b64:aGk="')).toEqual({ icon: 'b64:aGk=' });
+	});
+
+	it('round-trips binary values in tables and lists', () => {
+		const files = [
+			{ name: 'a.bin', sha: new Uint8Array([1, 2, 3]) },
+			{ name: 'b.bin', sha: new Uint8Array([]) },
+		];
+		const toon = encode({ files, chunks: [new Uint8Array([255])] }, { binaryPrefix: true });
+		expect(toon).toBe('files[2]{name,sha}:\n  a.bin,"b64:AQID"\n  b.bin,"b64:"\nchunks[1]: "b64:/w=="');
+		const result = decode(toon, { binary: true }) as unknown as { files: { sha: Uint8Array }[]; chunks: Uint8Array[] };
+		expect(result.files.map((file) => Array.from(file.sha))).toEqual([[1, 2, 3], []]);
+		expect(Array.from(result.chunks[0])).toEqual([255]);
+	});
+});
+
+describe('Automatic Delimiter', () => {
+	it('round-trips documents and arrays with chosen delimiters', () => {
+		const input = {
+			addresses: [
+				{ street: 'Main St 1, Apt 2', city: 'Berlin' },
+				{ street: 'Elm St, 4', city: 'Paris' },
+			],
+			tags: ['a|b', 'c|d', 'e'],
+			groups: [{ names: ['x\ty', 'z'], note: 'p, q' }],
+			note: 'x, y',
+		};
+		expect(decode(encode(input, { delimiter: 'auto' }))).toEqual(input);
+		expect(decode(encode(input, { delimiter: 'auto', autoDelimiter: 'array' }))).toEqual(input);
+	});
+});
+
+describe('Constant Column Hoisting', () => {
+	const items = [1, 2, 3].map((i) => ({ sku: `S${i}`, qty: i, currency: 'EUR' }));
+
+	it('re-injects hoisted columns into every row', () => {
+		const toon = encode({ id: 5, items }, { hoistConstants: true });
+		expect(JSON.stringify(decode(toon, { injectConstants: true }))).toBe(JSON.stringify({ id: 5, items }));
+	});
+
+	it('re-injects hoisted columns at their original positions', () => {
+		const rows = [1, 2, 3].map((i) => ({ currency: 'EUR', sku: `S${i}`, tenant: 'acme', qty: i }));
+		const sparse = [{ a: 1, k: 'x', b: 1 }, { a: 2, k: 'x' }, { a: 3, k: 'x', b: 3 }, { a: 4, k: 'x', b: 4 }];
+		const input = { rows, sparse };
+		const toon = encode(input, { hoistConstants: true, sparseTabular: true, sparseThreshold: 0.5 });
+		expect(toon).toContain('_order[3]: a,k,b');
+		expect(JSON.stringify(decode(toon, { injectConstants: true, sparseTabular: true }))).toBe(JSON.stringify(input));
+	});
+
+	it('keeps the _constants key without the option', () => {
+		const toon = encode({ id: 5, items }, { hoistConstants: true });
+		expect(decode(toon)).toEqual({
+			id: 5,
+			items: items.map(({ sku, qty }) => ({ sku, qty })),
+			_constants: { items: { currency: 'EUR' } },
+		});
+	});
+
+	it('restores tables nested in list items', () => {
+		const groups = [{ name: 'a', items }, { name: 'b', items: items.slice(0, 1) }];
+		const toon = encode({ groups }, { hoistConstants: true });
+		expect(toon).toContain('    _constants:');
+		expect(JSON.stringify(decode(toon, { injectConstants: true }))).toBe(JSON.stringify({ groups }));
+	});
+});
+
+describe('Shape Partitioning', () => {
+	const events = [
+		{ type: 'click', x: 10, y: 20 },
+		{ type: 'purchase', sku: 'A-1', amount: 9.5 },
+		{ type: 'signup', email: 'a@b.c' },
+		{ type: 'click', x: 30, y: 40 },
+	];
+
+	it('merges partitions back in their original order', () => {
+		const input = { id: 1, events, total: 4 };
+		const toon = encode(input, { partitionShapes: { by: 'type' } });
+		const merged = decode(toon, { mergePartitions: true }) as { events: object[] };
+		expect(merged).toEqual(input);
+		expect(Object.keys(merged)).toEqual(['id', 'events', 'total']);
+		expect(Object.keys(merged.events[1])).toEqual(['type', 'sku', 'amount']);
+		expect(decode(toon, { mergePartitions: true, expandPaths: 'safe' })).toEqual(input);
+	});
+
+	it('merges partitions written with key folding', () => {
+		const input = { log: { source: 'web', events } };
+		const toon = encode(input, { partitionShapes: true, keyFolding: 'safe' });
+		expect(decode(toon, { mergePartitions: true, expandPaths: 'safe' })).toEqual(input);
+	});
+
+	it('only merges dotted sibling keys', () => {
+		const rows = (from: number) => [{ _index: from, id: 'a' }, { _index: from + 1, id: 'b' }];
+		const input = { groups: { red: rows(0), blue: rows(2) }, 'config.v2': rows(0), 'x.a': rows(0), x: 1, 'y.a': rows(0), 'y.b': rows(2) };
+		const toon = encode(input);
+		expect(JSON.stringify(decode(toon, { mergePartitions: true }))).toBe(
+			JSON.stringify({ ...input, 'y.a': undefined, 'y.b': undefined, y: [{ id: 'a' }, { id: 'b' }, { id: 'a' }, { id: 'b' }] }),
+		);
+		expect(decode(toon, { mergePartitions: true, expandPaths: 'safe' })).toHaveProperty('groups.red', rows(0));
+	});
+
+	it('keeps the parts without the option or without an index column', () => {
+		const toon = encode({ events }, { partitionShapes: { by: 'type', index: false } });
+		expect(decode(toon, { mergePartitions: true })).toEqual(decode(toon));
+		expect(decode(toon)).toHaveProperty(['events.click', 1, 'x'], 30);
+	});
+
+	it('does not partition rows with an _index field of their own', () => {
+		const input = { events: [{ _index: 5, a: 1 }, { b: 2 }] };
+		const toon = encode(input, { partitionShapes: true });
+		expect(toon).toBe('events[2]:\n  - _index: 5\n    a: 1\n  - b: 2');
+		expect(decode(toon, { mergePartitions: true })).toEqual(input);
+	});
+});
+
+describe('Key Aliasing', () => {
+	const input = {
+		customers: [
+			{ customerAccountIdentifier: 1, name: 'Ada', accountStatus: 'active' },
+			{ customerAccountIdentifier: 2, name: 'Bob', accountStatus: 'closed' },
+		],
+		owner: { customerAccountIdentifier: 9, address: { postalCodeValue: '10115' } },
+	};
+
+	it('restores keys from the _legend key, tabular fields included', () => {
+		const toon = encode(input, { aliasKeys: true });
+		const restored = decode(toon, { legend: true }) as typeof input;
+		expect(restored).toEqual(input);
+		expect(Object.keys(restored.customers[0])).toEqual(['customerAccountIdentifier', 'name', 'accountStatus']);
+		expect(decode(toon)).toHaveProperty(['_legend', 'cai'], 'customerAccountIdentifier');
+	});
+
+	it('restores keys with a separate legend', () => {
+		const { toon, legend } = encodeWithReport(input, {
+			aliasKeys: { auto: false, aliases: { name: 'n', accountStatus: 'as' }, legend: 'separate' },
+		});
+		expect(legend).toEqual({ n: 'name', as: 'accountStatus' });
+		expect(JSON.stringify(decode(toon, { legend }))).toBe(JSON.stringify(input));
+	});
+
+	it('restores aliased keys of folded paths and flattened columns', () => {
+		const rows = { id: 1, rows: [{ customerAddress: { postalCodeValue: 1 } }, { customerAddress: { postalCodeValue: 2 } }] };
+		const toon = encode(rows, { aliasKeys: true, flattenColumns: true, keyFolding: 'safe' });
+		expect(toon).toContain('rows[2]{ca.pcv}:');
+		expect(decode(toon, { legend: true, unflattenColumns: true, expandPaths: 'safe' })).toEqual(rows);
+	});
+});
+
+describe('Value Dictionary', () => {
+	const waiting = 'Waiting for customer response';
+	const tickets = [1, 2, 3].map((id) => ({ id, status: waiting, url: `https://example.com/tickets/${id}` }));
+
+	it('expands codes from the _dictionary key', () => {
+		const input = { id: 7, tickets };
+		const toon = encode(input, { dictionary: true });
+		expect(toon).toContain('  1,~1,');
+		expect(decode(toon, { expandDictionary: true })).toEqual(input);
+		expect(decode(toon)).toHaveProperty(['_dictionary', 'tickets', 'status', 0], { code: '~1', value: waiting });
+	});
+
+	it('expands codes together with aliased keys and hoisted columns', () => {
+		const rows = ['New', waiting, waiting].map((status, i) => ({ id: i, status, queue: 'support' }));
+		const input = { groups: [{ name: 'a', rows }, { name: 'b', rows: rows.slice(0, 1) }] };
+		const toon = encode(input, { dictionary: { minCount: 2 }, hoistConstants: true, aliasKeys: { minLength: 6 } });
+		expect(toon).toContain('_dictionary:');
+		expect(toon).toContain('_constants:');
+		expect(decode(toon, { expandDictionary: true, injectConstants: true, legend: true })).toEqual(input);
+	});
+});
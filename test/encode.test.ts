@@ -1,6 +1,6 @@
 /* eslint-disable @n8n/community-nodes/no-restricted-imports */
 import { describe, expect, it } from 'vitest'
-import { encode } from './setup'
+import { EncodeError, analyze, decode, encode, encodeLines, encodeStream, encodeToSink, encodeWithReport, encodeWithSourceMap, encodeWithinBudget, toonHash } from './setup'
 
 /**
  * Example tests from TOON GitHub README
@@ -200,3 +200,1420 @@ describe('Formatting Options', () => {
   })
 })
 
+
+describe('Key Folding', () => {
+  it('folds single-key object chains into dotted paths', () => {
+    const input = { data: { attributes: { profile: { name: 'Ada', age: 36 } } } }
+    expect(encode(input, { keyFolding: 'safe' }))
+      .toBe('data.attributes.profile:\n  name: Ada\n  age: 36')
+  })
+
+  it('folds down to primitive and array leaves', () => {
+    const input = { a: { b: { c: 1 } }, x: { tags: ['foo', 'bar'] } }
+    expect(encode(input, { keyFolding: 'safe' })).toBe('a.b.c: 1\nx.tags[2]: foo,bar')
+  })
+
+  it('leaves output unchanged when folding is off', () => {
+    const input = { a: { b: { c: 1 } } }
+    expect(encode(input)).toBe('a:\n  b:\n    c: 1')
+  })
+
+  it('limits folded keys to flattenDepth segments', () => {
+    const input = { a: { b: { c: { d: 1 } } } }
+    expect(encode(input, { keyFolding: 'safe', flattenDepth: 2 })).toBe('a.b:\n  c.d: 1')
+  })
+
+  it('does not fold through keys that are not identifier segments', () => {
+    const input = { a: { 'b-c': { d: 1 } } }
+    expect(encode(input, { keyFolding: 'safe' })).toBe('a:\n  "b-c":\n    d: 1')
+  })
+
+  it('quotes literal dotted keys and skips folding when they collide', () => {
+    const input = { a: { b: 1 }, 'a.c': 2 }
+    expect(encode(input, { keyFolding: 'safe' })).toBe('a:\n  b: 1\n"a.c": 2')
+  })
+
+  it('folds the first key of list items', () => {
+    const input = { items: [{ meta: { id: 1 }, name: 'x' }, 'y'] }
+    expect(encode(input, { keyFolding: 'safe' })).toBe('items[2]:\n  - meta.id: 1\n    name: x\n  - y')
+  })
+})
+
+describe('Sparse Tabular Arrays', () => {
+  const contacts = [
+    { id: 1, name: 'Ada', email: 'ada@example.com' },
+    { id: 2, name: 'Bob' },
+    { id: 3, name: 'Cy', email: 'cy@example.com', phone: '555' },
+  ]
+
+  it('keeps list format by default', () => {
+    expect(encode({ contacts })).toContain('contacts[3]:\n  - id: 1')
+  })
+
+  it('uses the union of keys and fills missing cells with null', () => {
+    expect(encode({ contacts }, { sparseTabular: true, sparseThreshold: 0.7 }))
+      .toBe('contacts[3]{id,name,email,phone}:\n  1,Ada,ada@example.com,null\n  2,Bob,null,null\n  3,Cy,cy@example.com,"555"')
+  })
+
+  it('falls back to list format below the coverage threshold', () => {
+    expect(encode({ contacts }, { sparseTabular: true })).toContain('contacts[3]:\n  - id: 1')
+  })
+
+  it('falls back to list format when a row has a nested value', () => {
+    const rows = [{ id: 1, tags: ['a'] }, { id: 2 }]
+    expect(encode({ rows }, { sparseTabular: true, sparseThreshold: 0 })).toBe('rows[2]:\n  - id: 1\n    tags[1]: a\n  - id: 2')
+  })
+
+  it('keeps uniform rows with null values out of tables', () => {
+    const rows = [{ id: 1, email: null }, { id: 2, email: 'x' }]
+    expect(encode({ rows })).toBe('rows[2]{id,email}:\n  1,null\n  2,x')
+    expect(encode({ rows }, { sparseTabular: true })).toContain('rows[2]:\n  - id: 1')
+    expect(analyze({ rows }, { sparseTabular: true }).arrays[0].reason)
+      .toBe('row 0 has a null `email`, which sparse tables would drop')
+    expect(() => encode({ rows }, { sparseTabular: true, overrides: { rows: { layout: 'tabular' } } }))
+      .toThrow('and no nulls when sparseTabular is on')
+  })
+})
+
+describe('Flattened Tabular Columns', () => {
+  const people = [
+    { id: 1, name: 'Ada', address: { city: 'Berlin', zip: '10115' } },
+    { id: 2, name: 'Bob', address: { city: 'Paris', zip: '75001' } },
+  ]
+
+  it('keeps list format by default', () => {
+    expect(encode({ people })).toContain('people[2]:\n  - id: 1')
+  })
+
+  it('flattens nested objects into dotted columns', () => {
+    expect(encode({ people }, { flattenColumns: true }))
+      .toBe('people[2]{id,name,address.city,address.zip}:\n  1,Ada,Berlin,"10115"\n  2,Bob,Paris,"75001"')
+  })
+
+  it('quotes literal dotted fields of rows that are not flattened', () => {
+    expect(encode({ rows: [{ 'a.b': 1, c: 2 }] }, { flattenColumns: true })).toBe('rows[1]{"a.b",c}:\n  1,2')
+    expect(encode({ rows: [{ 'a.b': 1, c: { d: 2 } }] }, { flattenColumns: true }))
+      .toBe('rows[1]:\n  - a.b: 1\n    c:\n      d: 2')
+  })
+
+  it('quotes literal dotted fields in safe key folding mode', () => {
+    expect(encode({ rows: [{ 'a.b': 1, c: 2 }] }, { keyFolding: 'safe' })).toBe('rows[1]{"a.b",c}:\n  1,2')
+    expect(encode({ people }, { keyFolding: 'safe', flattenColumns: true }))
+      .toBe('people[2]{id,name,address.city,address.zip}:\n  1,Ada,Berlin,"10115"\n  2,Bob,Paris,"75001"')
+  })
+
+  it('does not flatten rows with nested arrays or empty objects', () => {
+    expect(encode({ rows: [{ id: 1, meta: {} }] }, { flattenColumns: true })).toBe('rows[1]:\n  - id: 1\n    meta:')
+    expect(encode({ rows: [{ id: 1, meta: { tags: ['a'] } }] }, { flattenColumns: true }))
+      .toBe('rows[1]:\n  - id: 1\n    meta:\n      tags[1]: a')
+  })
+})
+
+describe('Canonical Encoding', () => {
+  const a = { user: { name: 'Ada', id: 1 }, tags: ['x', 'y'], items: [{ sku: 'A1', qty: 2 }, { qty: 1, sku: 'B2' }] }
+  const b = { items: [{ qty: 2, sku: 'A1' }, { sku: 'B2', qty: 1 }], tags: ['x', 'y'], user: { id: 1, name: 'Ada' } }
+
+  it('sorts object keys and tabular headers', () => {
+    expect(encode(a, { canonical: true }))
+      .toBe('items[2]{qty,sku}:\n  2,A1\n  1,B2\ntags[2]: x,y\nuser:\n  id: 1\n  name: Ada')
+  })
+
+  it('produces identical output for deep-equal inputs', () => {
+    expect(encode(a, { canonical: true })).toBe(encode(b, { canonical: true }))
+    expect(encode(a)).not.toBe(encode(b))
+  })
+
+  it('normalizes strings to NFC', () => {
+    expect(encode({ name: 'Cafe\u0301' }, { canonical: true })).toBe('name: Caf\u00e9')
+  })
+
+  it('throws when keys collide after NFC normalization', () => {
+    expect(() => encode({ user: { 'Cafe\u0301': 1, 'Caf\u00e9': 2 } }, { canonical: true }))
+      .toThrow(/^Keys ".+" and ".+" at "user" are equal after NFC normalization$/)
+  })
+
+  it('writes each number in a single spelling', () => {
+    const numberFormat = { maxFractionDigits: 2, trimTrailingZeros: false }
+    const columnNumberFormats = { price: { trimTrailingZeros: false, maxFractionDigits: 3 } }
+    expect(encode({ a: 2.5, b: 1e-7, rows: [{ price: 1.5 }] }, { canonical: true, numberFormat, columnNumberFormats }))
+      .toBe('a: 2.5\nb: 0\nrows[1]{price}:\n  1.5')
+  })
+
+  it('sorts sparse tabular headers', () => {
+    const rows = [{ b: 1 }, { a: 2, b: 3 }]
+    expect(encode({ rows }, { canonical: true, sparseTabular: true, sparseThreshold: 0.5 }))
+      .toBe('rows[2]{a,b}:\n  null,1\n  2,3')
+  })
+
+  it('hashes deep-equal inputs identically', () => {
+    expect(toonHash(a)).toBe(toonHash(b))
+    expect(toonHash(a)).toMatch(/^[0-9a-f]{64}$/)
+    expect(toonHash({ ...a, tags: ['y', 'x'] })).not.toBe(toonHash(a))
+  })
+
+  it('hashes the canonical TOON text with SHA-256', () => {
+    expect(toonHash('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad')
+  })
+})
+
+describe('Number Formatting', () => {
+  it('keeps default number output unchanged', () => {
+    expect(encode({ a: 1e21, b: 0.1 + 0.2, c: 1e-7 })).toBe('a: 1e+21\nb: 0.30000000000000004\nc: 1e-7')
+  })
+
+  it('limits fraction digits and trims trailing zeros', () => {
+    expect(encode({ a: 0.1 + 0.2, b: 2.5, c: 3 }, { numberFormat: { maxFractionDigits: 2 } })).toBe('a: 0.3\nb: 2.5\nc: 3')
+  })
+
+  it('keeps trailing zeros when trimming is disabled', () => {
+    const numberFormat = { maxFractionDigits: 2, trimTrailingZeros: false }
+    expect(encode({ price: 2.5, tags: [1, 0.125] }, { numberFormat })).toBe('price: 2.50\ntags[2]: 1.00,0.13')
+  })
+
+  it('writes plain decimals instead of exponent notation', () => {
+    const numberFormat = { plainDecimal: true }
+    expect(encode({ a: 1e21, b: -1.5e-7, c: 1.25e22 }, { numberFormat }))
+      .toBe('a: 1000000000000000000000\nb: -0.00000015\nc: 12500000000000000000000')
+  })
+
+  it('never writes negative zero after rounding', () => {
+    expect(encode({ a: -0.0001 }, { numberFormat: { maxFractionDigits: 2 } })).toBe('a: 0')
+  })
+
+  it('applies column formats to tabular cells', () => {
+    const items = [{ sku: 'A1', price: 9.999, ratio: 0.33333 }, { sku: 'B2', price: 14.5, ratio: 0.5 }]
+    expect(encode({ items }, { numberFormat: { maxFractionDigits: 1 }, columnNumberFormats: { price: { maxFractionDigits: 2, trimTrailingZeros: false } } }))
+      .toBe('items[2]{sku,price,ratio}:\n  A1,10.00,0.3\n  B2,14.50,0.5')
+  })
+
+  it('uses plain decimals in canonical mode', () => {
+    expect(encode({ a: 1e21 }, { canonical: true })).toBe('a: 1000000000000000000000')
+  })
+
+  it('rejects fraction digits that are not an integer from 0 to 100', () => {
+    expect(() => encode({ a: 1 }, { numberFormat: { maxFractionDigits: 101 } }))
+      .toThrow('numberFormat.maxFractionDigits must be an integer from 0 to 100, got 101')
+    expect(() => encode({ a: 1 }, { numberFormat: { maxFractionDigits: -1 } })).toThrow('got -1')
+    expect(() => encode({ a: 1 }, { columnNumberFormats: { price: { maxFractionDigits: 1.5 } } }))
+      .toThrow('columnNumberFormats.price.maxFractionDigits must be an integer from 0 to 100, got 1.5')
+    expect(encode({ a: 0.5 }, { numberFormat: { maxFractionDigits: 0 } })).toBe('a: 1')
+  })
+})
+
+describe('Streaming Encode', () => {
+  const input = {
+    user: { id: 1, name: 'Ada' },
+    tags: ['a', 'b'],
+    items: [{ sku: 'A1', qty: 2 }, { sku: 'B2', qty: 1 }],
+  }
+
+  async function collect(stream: AsyncGenerator<string, string>) {
+    const lines: string[] = []
+    let result = await stream.next()
+    while (!result.done) {
+      lines.push(result.value)
+      result = await stream.next()
+    }
+    return { lines, header: result.value }
+  }
+
+  async function* rows(count: number) {
+    for (let i = 1; i <= count; i++) yield { id: i, name: `user${i}` }
+  }
+
+  it('yields the same lines as encode()', () => {
+    expect([...encodeLines(input)].join('\n')).toBe(encode(input))
+    expect([...encodeLines([1, 2])]).toEqual(['[2]: 1,2'])
+    expect([...encodeLines('hello')]).toEqual(['hello'])
+  })
+
+  it('encodes the items of root and top-level arrays as lines are pulled', () => {
+    const items = [{ id: 1, tags: ['a'] }, { id: 2, tags: ['b'] }, { id: 3, tags: ['c'] }]
+    for (const [value, prefix] of [[items, ''], [{ items, total: 3 }, 'items']] as const) {
+      const visited: string[] = []
+      const lines = encodeLines(value, { visitArray: (path) => void visited.push(path) })
+      expect([lines.next().value, lines.next().value, lines.next().value]).toEqual([
+        `${prefix}[3]:`,
+        '  - id: 1',
+        '    tags[1]: a',
+      ])
+      expect(visited).toEqual([prefix, `${prefix}[0].tags`])
+      expect([...lines]).toHaveLength(prefix ? 5 : 4)
+      expect(visited).toHaveLength(4)
+    }
+  })
+
+  it('writes lines to a sink', () => {
+    const lines: string[] = []
+    encodeToSink(input, (line) => lines.push(line), { delimiter: '|' })
+    expect(lines.join('\n')).toBe(encode(input, { delimiter: '|' }))
+  })
+
+  it('applies document options to the whole input before writing lines', () => {
+    const orders = [{ customerName: 'Ada', qty: 1 }, { customerName: 'Bob', qty: 1 }, { customerName: 'Cy', qty: 1 }]
+    const options = { aliasKeys: true, hoistConstants: true, groupBy: { orders: { fields: ['qty'] } } }
+    const lines: string[] = []
+    encodeToSink({ orders }, (line) => lines.push(line), options)
+    expect(lines.join('\n')).toBe(encode({ orders }, options))
+    expect([...encodeLines({ orders }, options)].join('\n')).toBe(encode({ orders }, options))
+    expect(lines[0]).toBe('_legend:')
+  })
+
+  it('streams rows with a declared length', async () => {
+    const { lines } = await collect(encodeStream(rows(3), { key: 'users', length: 3 }))
+    expect(lines).toEqual(['users[3]{id,name}:', '  1,user1', '  2,user2', '  3,user3'])
+  })
+
+  it('returns the header for back-patching when the length is unknown', async () => {
+    const { lines, header } = await collect(encodeStream(rows(2), { key: 'users', fields: ['name', 'id'], lengthMarker: '#' }))
+    expect(lines).toEqual(['  user1,1', '  user2,2'])
+    expect(header).toBe('users[#2]{name,id}:')
+  })
+
+  it('accepts synchronous iterables and fills missing cells with null', async () => {
+    const { lines } = await collect(encodeStream([{ id: 1, name: 'Ada' }, { id: 2 }], { length: 2, delimiter: '\t' }))
+    expect(lines).toEqual(['[2\t]{id\tname}:', '  1\tAda', '  2\tnull'])
+  })
+
+  it('rejects a row count that differs from the declared length', async () => {
+    await expect(collect(encodeStream(rows(2), { key: 'users', length: 3 })))
+      .rejects.toThrow('Stream length mismatch: declared 3 rows, but received 2')
+  })
+
+  it('rejects an extra row as soon as it arrives', async () => {
+    let pulled = 0
+    function* endless() {
+      for (;;) yield { id: ++pulled }
+    }
+    await expect(collect(encodeStream(endless(), { key: 'users', length: 2 })))
+      .rejects.toThrow(new EncodeError('Stream length mismatch: declared 2 rows, but received 3', 'users'))
+    expect(pulled).toBe(3)
+  })
+
+  it('rejects rows with unknown or nested fields', async () => {
+    await expect(collect(encodeStream([{ id: 1 }, { id: 2, extra: true }])))
+      .rejects.toThrow('Stream row 1 has field "extra" that is not in the header')
+    await expect(collect(encodeStream([{ id: 1, tags: ['a'] }])))
+      .rejects.toThrow('Stream row 0 field "tags" is not a primitive value')
+    await expect(collect(encodeStream([{ id: 1 }, 2], { key: 'users' }))).rejects.toMatchObject({
+      name: 'EncodeError',
+      path: 'users[1]',
+    })
+  })
+
+  it('rejects options that rewrite the whole document', async () => {
+    await expect(collect(encodeStream(rows(2), { aliasKeys: true })))
+      .rejects.toThrow('encodeStream encodes one row at a time and does not support aliasKeys')
+    await expect(collect(encodeStream(rows(2), { hoistConstants: true, dictionary: true, groupBy: { '': { fields: ['id'] } } })))
+      .rejects.toThrow('does not support hoistConstants, dictionary, groupBy')
+    await expect(collect(encodeStream(rows(2), { partitionShapes: true }))).rejects.toThrow('does not support partitionShapes')
+  })
+})
+
+describe('Token Budget', () => {
+  const users = Array.from({ length: 40 }, (_, i) => ({ id: i + 1, name: `user${i + 1}` }))
+
+  it('leaves output unchanged when it fits the budget', () => {
+    const input = { users: users.slice(0, 3) }
+    expect(encode(input, { maxTokens: 1000 })).toBe(encode(input))
+    expect(encodeWithinBudget(input).omitted).toEqual([])
+  })
+
+  it('keeps the first items and records the omission in a sibling key', () => {
+    expect(encode({ users, total: 40 }, { maxTokens: 40 })).toBe([
+      'users[5]{id,name}:',
+      '  1,user1',
+      '  2,user2',
+      '  3,user3',
+      '  4,user4',
+      '  5,user5',
+      'total: 40',
+      '_omitted:',
+      '  users: first 5 of 40 items',
+    ].join('\n'))
+  })
+
+  it('keeps head and tail items', () => {
+    const toon = encode({ users }, { maxTokens: 40, strategy: 'headTail' })
+    expect(toon).toContain('  3,user3\n  39,user39\n  40,user40')
+    expect(toon).toContain('users: first 3 and last 2 of 40 items')
+  })
+
+  it('keeps evenly spaced items', () => {
+    const toon = encode({ users }, { maxTokens: 40, strategy: 'sample' })
+    expect(toon).toContain('users[5]{id,name}:\n  1,user1\n  11,user11\n  21,user21\n  30,user30\n  40,user40')
+    expect(toon).toContain('users: 5 evenly spaced of 40 items')
+  })
+
+  it('returns a report instead of inline markers', () => {
+    const result = encodeWithinBudget({ users }, { maxTokens: 40, markOmissions: false })
+    expect(result.toon).not.toContain('_omitted')
+    expect(result.fits).toBe(true)
+    expect(result.tokens).toBeLessThanOrEqual(40)
+    expect(result.omitted).toEqual([{ path: 'users', type: 'array', kept: 10, total: 40 }])
+  })
+
+  it('truncates long strings before sampling short arrays', () => {
+    const result = encodeWithinBudget({ title: 'x'.repeat(400), tags: ['a', 'b'] }, { maxTokens: 30 })
+    expect(result.toon).toBe(`title: ${'x'.repeat(50)}… (350 more chars)\ntags[2]: a,b`)
+    expect(result.omitted).toEqual([{ path: 'title', type: 'string', kept: 50, total: 400 }])
+  })
+
+  it('reports nested paths and root arrays', () => {
+    const result = encodeWithinBudget([{ tags: Array.from({ length: 100 }, (_, i) => i) }], { maxTokens: 10 })
+    expect(result.omitted).toMatchObject([{ path: '[0].tags', type: 'array', total: 100 }])
+    expect(result.toon).toContain('_omitted:')
+  })
+
+  it('warns about omissions that have no place for an _omitted note', () => {
+    const { toon, warnings } = encodeWithReport({ users, _omitted: 'none', grid: [users] }, { maxTokens: 40 })
+    expect(toon).toContain('_omitted: none')
+    expect(warnings).toEqual([
+      { path: 'users', originalType: 'array', conversion: expect.stringMatching(/^first \d+ of 40 items, not noted in _omitted$/) },
+      { path: 'grid[0]', originalType: 'array', conversion: expect.stringMatching(/^first \d+ of 40 items, not noted in _omitted$/) },
+    ])
+    expect(encodeWithReport(users, { maxTokens: 40 }).warnings).toEqual([
+      { path: '', originalType: 'array', conversion: 'first 10 of 40 items, not noted in _omitted' },
+    ])
+    expect(encodeWithReport(users, { maxTokens: 40, markOmissions: false }).warnings).toEqual([])
+  })
+
+  it('reports when the output cannot fit', () => {
+    const result = encodeWithinBudget({ users }, { maxTokens: 2 })
+    expect(result.fits).toBe(false)
+    expect(result.omitted).toEqual([{ path: 'users', type: 'array', kept: 1, total: 40 }])
+  })
+})
+
+describe('Path Projection', () => {
+  const input = {
+    users: [
+      { id: 1, email: 'a@x.io', _links: { self: '/users/1' } },
+      { id: 2, email: 'b@x.io', _links: { self: '/users/2' } },
+    ],
+    etag: 'W/"42"',
+    page: { size: 2, metadata: { cached: true } },
+    _links: { next: '/users?page=2' },
+  }
+
+  it('excludes paths at any depth', () => {
+    expect(encode(input, { exclude: ['**._links', 'etag', '*.metadata'] })).toBe([
+      'users[2]{id,email}:',
+      '  1,a@x.io',
+      '  2,b@x.io',
+      'page:',
+      '  size: 2',
+    ].join('\n'))
+  })
+
+  it('includes only matching paths and keeps what is below them', () => {
+    expect(encode(input, { include: ['users[*].email', 'page'] })).toBe([
+      'users[2]{email}:',
+      '  a@x.io',
+      '  b@x.io',
+      'page:',
+      '  size: 2',
+      '  metadata:',
+      '    cached: true',
+    ].join('\n'))
+  })
+
+  it('applies exclude after include', () => {
+    expect(encode(input, { include: ['users[0]', 'page'], exclude: ['**._links', '**.metadata'] })).toBe(
+      'users[1]{id,email}:\n  1,a@x.io\npage:\n  size: 2',
+    )
+  })
+
+  it('drops containers without any included path', () => {
+    expect(encode({ a: { b: 1 }, c: { d: { e: 2 } } }, { include: ['**.e'] })).toBe('c:\n  d:\n    e: 2')
+  })
+
+  it('matches root array items', () => {
+    expect(encode([{ a: 1, b: 2 }, { a: 3, b: 4 }], { include: ['[*].a'] })).toBe('[2]{a}:\n  1\n  3')
+  })
+
+  it('projects Map and Set contents', () => {
+    expect(encode({ m: new Map([['keep', 1], ['drop', 2]]) }, { exclude: ['m.drop'] })).toBe('m:\n  keep: 1')
+    expect(encode({ s: new Set(['x', 'y']) }, { exclude: ['s[1]'] })).toBe('s[1]: x')
+  })
+
+  it('rejects malformed patterns', () => {
+    expect(() => encode({}, { include: ['a..b'] })).toThrow('Invalid path pattern "a..b"')
+    expect(() => encode({}, { exclude: ['a[x]'] })).toThrow('Invalid path pattern "a[x]"')
+    expect(() => encode({ a: 1 }, { include: [''] })).toThrow('Invalid path pattern "": include and exclude patterns cannot name the root')
+    expect(() => encode({ a: 1 }, { exclude: [''] })).toThrow('Invalid path pattern ""')
+  })
+})
+
+describe('Replacer and Array Visitor', () => {
+  it('replaces values like JSON.stringify', () => {
+    const replacer = (key: string, value: unknown) => {
+      if (key === 'secret') return undefined
+      if (key === 'at') return Date.parse(value as string)
+      return value
+    }
+    expect(encode({ id: 1, secret: 'x', at: new Date(0) }, { replacer })).toBe('id: 1\nat: 0')
+  })
+
+  it('passes the result of toJSON to the replacer', () => {
+    const seen: unknown[] = []
+    const money = { toJSON: (key: string) => `${key}: 5 EUR` }
+    const input = { at: new Date(0), price: money, bytes: new Uint8Array([1]) }
+    encode(input, { replacer: (key, value) => (key && seen.push(value), value) })
+    expect(seen).toEqual(['1970-01-01T00:00:00.000Z', 'price: 5 EUR', new Uint8Array([1])])
+  })
+
+  it('turns omitted array items into null', () => {
+    expect(encode([1, 2, 3], { replacer: (_key, value) => (value === 2 ? undefined : value) })).toBe('[3]: 1,null,3')
+  })
+
+  it('calls the replacer for the root with an empty key and the holder as this', () => {
+    const holders: unknown[] = []
+    const input = { a: 1 }
+    const toon = encode(input, {
+      replacer(key, value) {
+        holders.push(this)
+        return key === '' ? { wrapped: value } : value
+      },
+    })
+    expect(toon).toBe('wrapped:\n  a: 1')
+    expect(holders[0]).toEqual({ '': input })
+    expect(holders[1]).toEqual({ wrapped: input })
+  })
+
+  it('passes JSON paths to the replacer', () => {
+    const paths: string[] = []
+    encode({ users: [{ id: 1 }], 'odd key': true }, { replacer: (_key, value, path) => (paths.push(path), value) })
+    expect(paths).toEqual(['', 'users', 'users[0]', 'users[0].id', '["odd key"]'])
+  })
+
+  it('forces arrays into list or tabular layout', () => {
+    const input = { n: [1, 2], rows: [{ a: 1 }, { b: 2 }] }
+    const toon = encode(input, { visitArray: (path) => (path === 'n' ? 'list' : path === 'rows' ? 'tabular' : undefined) })
+    expect(toon).toBe('n[2]:\n  - 1\n  - 2\nrows[2]{a,b}:\n  1,null\n  null,2')
+  })
+
+  it('forces layouts of arrays in list items', () => {
+    const input = [{ items: [1, 2], x: 1 }, { items: [{ a: 1 }, { b: 2 }] }]
+    const toon = encode(input, { visitArray: (path) => (path === '[0].items' ? 'list' : path === '[1].items' ? 'tabular' : undefined) })
+    expect(toon).toBe([
+      '[2]:',
+      '  - items[2]:',
+      '    - 1',
+      '    - 2',
+      '    x: 1',
+      '  - items[2]{a,b}:',
+      '    1,null',
+      '    null,2',
+    ].join('\n'))
+  })
+
+  it('visits arrays with their paths after key folding', () => {
+    const paths: string[] = []
+    encode({ data: { list: [1] }, rows: [{ tags: ['a'] }] }, { keyFolding: 'safe', visitArray: (path) => (paths.push(path), undefined) })
+    expect(paths).toEqual(['data.list', 'rows', 'rows[0].tags'])
+  })
+
+  it('rejects tabular layout for arrays without object rows', () => {
+    expect(() => encode({ a: [1, 2] }, { visitArray: () => 'tabular' }))
+      .toThrow('Array at "a" cannot be encoded as a table: rows must be objects with primitive values')
+  })
+})
+
+describe('Non-Plain Objects', () => {
+  class Point {
+    constructor(public x: number, public y: number) {}
+  }
+
+  class Money {
+    constructor(private cents: number) {}
+    toJSON() {
+      return (this.cents / 100).toFixed(2)
+    }
+  }
+
+  it('calls toJSON()', () => {
+    expect(encode({ price: new Money(1999) })).toBe('price: "19.99"')
+  })
+
+  it('calls toJSON() of plain objects', () => {
+    const input = { dec: { toJSON: () => '1.50' } }
+    expect(encode(input)).toBe('dec: "1.50"')
+    expect(encode(input, { replacer: (_key, value) => value })).toBe('dec: "1.50"')
+  })
+
+  it('recognises Luxon DateTime and Duration objects', () => {
+    class DateTime {
+      isLuxonDateTime = true
+      toISO() {
+        return '2025-01-15T10:30:00.000+01:00'
+      }
+    }
+    class Duration {
+      isLuxonDuration = true
+      toISO() {
+        return 'PT1H30M'
+      }
+    }
+    expect(encode({ now: new DateTime(), timeout: new Duration() })).toBe('now: "2025-01-15T10:30:00.000+01:00"\ntimeout: PT1H30M')
+  })
+
+  it('encodes URL and RegExp objects as strings', () => {
+    // Stands in for the WHATWG URL class, which has no typings in this project
+    class Url {
+      readonly [Symbol.toStringTag] = 'URL'
+      constructor(readonly href: string, readonly search: string) {}
+    }
+    const url = new Url('https://example.com/a?b=1', '?b=1')
+    expect(encode({ url, pattern: /^a+$/gi })).toBe('url: "https://example.com/a?b=1"\npattern: /^a+$/gi')
+  })
+
+  it('keeps enumerable own properties of class instances', () => {
+    expect(encode({ points: [new Point(1, 2), new Point(3, 4)] })).toBe('points[2]{x,y}:\n  1,2\n  3,4')
+  })
+
+  it('writes unsupported values as null by default', () => {
+    expect(encode({ fn: () => 1, pending: Promise.resolve() })).toBe('fn: null\npending: null')
+  })
+
+  it('writes unsupported values as strings', () => {
+    expect(encode({ error: new Error('boom'), tag: Symbol('id') }, { unsupportedValues: 'string' }))
+      .toBe('error: "Error: boom"\ntag: Symbol(id)')
+  })
+
+  it('throws on unsupported values with their path', () => {
+    expect(() => encode({ jobs: [{ result: Promise.resolve() }] }, { unsupportedValues: 'throw' }))
+      .toThrow('Cannot encode Promise at "jobs[0].result"')
+    expect(() => encode({ handler: () => 1 }, { unsupportedValues: 'throw' }))
+      .toThrow('Cannot encode function at "handler"')
+    expect(encode({ value: undefined }, { unsupportedValues: 'throw' })).toBe('value: null')
+  })
+})
+
+describe('Binary Values', () => {
+  const bytes = new Uint8Array([0, 1, 2, 250, 255])
+
+  it('encodes bytes as base64', () => {
+    expect(encode({ data: bytes })).toBe('data: AAEC+v8=')
+    expect(encode({ data: bytes.buffer })).toBe('data: AAEC+v8=')
+    expect(encode({ data: new Uint8Array([104, 105]) })).toBe('data: aGk=')
+  })
+
+  it('encodes bytes as hex with an optional prefix', () => {
+    expect(encode({ data: bytes }, { binaryEncoding: 'hex' })).toBe('data: 000102faff')
+    expect(encode({ data: bytes }, { binaryEncoding: 'hex', binaryPrefix: true })).toBe('data: "hex:000102faff"')
+    expect(encode({ data: bytes }, { binaryPrefix: true })).toBe('data: "b64:AAEC+v8="')
+  })
+
+  it('encodes only the viewed bytes', () => {
+    expect(encode(new DataView(bytes.buffer, 1, 2), { binaryEncoding: 'hex' })).toBe('"0102"')
+    expect(encode(bytes.subarray(3), { binaryEncoding: 'hex' })).toBe('faff')
+  })
+
+  it('encodes numeric typed arrays as primitive arrays', () => {
+    expect(encode({ embedding: new Float32Array([0.5, -1.25]) })).toBe('embedding[2]: 0.5,-1.25')
+    expect(encode({ ids: new BigInt64Array([BigInt(1), BigInt(2)]) })).toBe('ids[2]: 1,2')
+  })
+})
+
+describe('Circular References and Max Depth', () => {
+  function cyclic() {
+    const user: Record<string, unknown> = { id: 1, profile: { name: 'Ada' } }
+    ;(user.profile as Record<string, unknown>).owner = user
+    return { users: [user] }
+  }
+
+  it('throws with the path where the cycle closes', () => {
+    expect(() => encode(cyclic())).toThrow('Circular reference at "users[0].profile.owner" points back to "users[0]"')
+    try {
+      encode(cyclic())
+    }
+    catch (error) {
+      expect(error).toBeInstanceOf(EncodeError)
+      expect((error as EncodeError).path).toBe('users[0].profile.owner')
+    }
+  })
+
+  it('reports cycles back to the root', () => {
+    const root: Record<string, unknown> = { a: 1 }
+    root.self = root
+    expect(() => encode(root)).toThrow('Circular reference at "self" points back to the root')
+  })
+
+  it('replaces or drops circular references', () => {
+    expect(encode(cyclic(), { onCircular: 'marker' })).toBe([
+      'users[1]:',
+      '  - id: 1',
+      '    profile:',
+      '      name: Ada',
+      '      owner: "[Circular]"',
+    ].join('\n'))
+    expect(encode(cyclic(), { onCircular: 'drop' })).toContain('    profile:\n      name: Ada')
+    expect(encode(cyclic(), { onCircular: 'drop' })).not.toContain('owner')
+  })
+
+  it('allows shared references that are not cycles', () => {
+    const tag = { name: 'x' }
+    expect(encode({ a: tag, b: [tag, tag] })).toBe('a:\n  name: x\nb[2]{name}:\n  x\n  x')
+  })
+
+  it('detects cycles through arrays, Maps and Sets', () => {
+    const list: unknown[] = [1]
+    list.push(new Set([list]))
+    expect(() => encode({ list })).toThrow('Circular reference at "list[1][0]" points back to "list"')
+    const map = new Map<string, unknown>()
+    map.set('me', map)
+    expect(encode(map, { onCircular: 'marker' })).toBe('me: "[Circular]"')
+  })
+
+  it('limits nesting depth', () => {
+    const input = { a: 1, b: { c: { d: 1 } }, list: [[1]] }
+    expect(() => encode(input, { maxDepth: 1 })).toThrow('Maximum depth of 1 exceeded at "b.c"')
+    expect(encode(input, { maxDepth: 0, onMaxDepth: 'marker' })).toBe('a: 1\nb: "[MaxDepth]"\nlist: "[MaxDepth]"')
+    expect(encode(input, { maxDepth: 1, onMaxDepth: 'drop' })).toBe('a: 1\nb:\nlist[0]:')
+  })
+
+  it('allows containers at exactly maxDepth', () => {
+    const input = { a: 1, b: { c: { d: 1 } }, list: [[1]] }
+    expect(encode(input, { maxDepth: 2 })).toBe(encode(input))
+    expect(encode([], { maxDepth: 0 })).toBe('[0]:')
+  })
+})
+
+describe('Automatic Delimiter', () => {
+  const input = {
+    addresses: [
+      { street: 'Main St 1, Apt 2', city: 'Berlin' },
+      { street: 'Elm St, 4', city: 'Paris' },
+    ],
+    tags: ['a|b', 'c|d', 'e'],
+  }
+
+  it('keeps commas when nothing needs quoting', () => {
+    expect(encode({ tags: ['a', 'b'] }, { delimiter: 'auto' })).toBe('tags[2]: a,b')
+  })
+
+  it('picks the delimiter with the fewest quoted values for the document', () => {
+    expect(encode(input, { delimiter: 'auto' })).toBe([
+      'addresses[2\t]{street\tcity}:',
+      '  Main St 1, Apt 2\tBerlin',
+      '  Elm St, 4\tParis',
+      'tags[3\t]: a|b\tc|d\te',
+    ].join('\n'))
+  })
+
+  it('prefers pipes to tabs', () => {
+    expect(encode({ cells: ['a,b', 'c'] }, { delimiter: 'auto' })).toBe('cells[2|]: a,b|c')
+  })
+
+  it('picks a delimiter per array', () => {
+    expect(encode(input, { delimiter: 'auto', autoDelimiter: 'array' })).toBe([
+      'addresses[2|]{street|city}:',
+      '  Main St 1, Apt 2|Berlin',
+      '  Elm St, 4|Paris',
+      'tags[3]: a|b,c|d,e',
+    ].join('\n'))
+  })
+
+  it('picks the stream delimiter from the first row', async () => {
+    const lines: string[] = []
+    for await (const line of encodeStream([{ street: 'Main St 1, Apt 2' }, { street: 'Elm St' }], { key: 'a', length: 2, delimiter: 'auto' })) {
+      lines.push(line)
+    }
+    expect(lines).toEqual(['a[2|]{street}:', '  Main St 1, Apt 2', '  Elm St'])
+  })
+})
+
+describe('Lossy Conversion Report', () => {
+  it('returns the same TOON as encode and no warnings for plain JSON', () => {
+    const input = { users: [{ id: 1, name: 'Alice' }], ok: true }
+    expect(encodeWithReport(input)).toEqual({ toon: encode(input), warnings: [] })
+  })
+
+  it('reports non-finite numbers, negative zero and big BigInts', () => {
+    const report = encodeWithReport({
+      stats: { ratio: NaN, max: Infinity, min: -Infinity, zero: -0 },
+      id: BigInt('12345678901234567890'),
+      small: BigInt(7),
+    })
+    expect(report.warnings).toEqual([
+      { path: 'stats.ratio', originalType: 'NaN', conversion: 'null' },
+      { path: 'stats.max', originalType: 'Infinity', conversion: 'null' },
+      { path: 'stats.min', originalType: '-Infinity', conversion: 'null' },
+      { path: 'stats.zero', originalType: '-0', conversion: '0' },
+      { path: 'id', originalType: 'bigint', conversion: 'string' },
+    ])
+  })
+
+  it('reports unsupported values with the chosen replacement', () => {
+    const input = { fn: () => 1, list: [Symbol('s')] }
+    expect(encodeWithReport(input).warnings).toEqual([
+      { path: 'fn', originalType: 'function', conversion: 'null' },
+      { path: 'list[0]', originalType: 'symbol', conversion: 'null' },
+    ])
+    expect(encodeWithReport(input, { unsupportedValues: 'string' }).warnings.map((w) => w.conversion))
+      .toEqual(['string', 'string'])
+  })
+
+  it('reports Sets, Maps and undefined', () => {
+    const report = encodeWithReport({
+      tags: new Set(['a']),
+      lookup: new Map([['k', 1]]),
+      items: [undefined],
+    })
+    expect(report.warnings).toEqual([
+      { path: 'tags', originalType: 'Set', conversion: 'array' },
+      { path: 'lookup', originalType: 'Map', conversion: 'object' },
+      { path: 'items[0]', originalType: 'undefined', conversion: 'null' },
+    ])
+  })
+
+  it('reports circular markers and dropped values', () => {
+    const node: Record<string, unknown> = { id: 1 }
+    node.self = node
+    expect(encodeWithReport(node, { onCircular: 'marker' }).warnings).toEqual([
+      { path: 'self', originalType: 'circular reference', conversion: '[Circular]' },
+    ])
+    expect(encodeWithReport(node, { onCircular: 'drop' }).warnings).toEqual([
+      { path: 'self', originalType: 'circular reference', conversion: 'dropped' },
+    ])
+  })
+})
+
+describe('Empty-Value Pruning', () => {
+  const input = {
+    id: 1,
+    note: null,
+    title: '',
+    tags: [],
+    meta: {},
+    owner: { name: 'Ada', email: null, links: {} },
+  }
+
+  it('keeps everything without prune options', () => {
+    expect(encode({ a: null, b: '' })).toBe('a: null\nb: ""')
+  })
+
+  it('drops only the enabled kinds of empty values', () => {
+    expect(encode(input, { prune: { null: true } })).toBe([
+      'id: 1',
+      'title: ""',
+      'tags[0]:',
+      'meta:',
+      'owner:',
+      '  name: Ada',
+      '  links:',
+    ].join('\n'))
+    expect(encode(input, { prune: { emptyString: true, emptyArray: true, emptyObject: true } })).toBe([
+      'id: 1',
+      'note: null',
+      'owner:',
+      '  name: Ada',
+      '  email: null',
+    ].join('\n'))
+  })
+
+  it('drops containers that become empty only when recursive', () => {
+    const nested = { id: 1, meta: { a: null, b: { c: '' } } }
+    const prune = { null: true, emptyString: true, emptyObject: true }
+    expect(encode(nested, { prune })).toBe('id: 1\nmeta:\n  b:')
+    expect(encode(nested, { prune: { ...prune, recursive: true } })).toBe('id: 1')
+  })
+
+  it('keeps array items', () => {
+    expect(encode({ list: [null, '', {}] }, { prune: { null: true, emptyString: true, emptyObject: true } }))
+      .toBe('list[3]:\n  - null\n  - ""\n  -')
+  })
+
+  it('makes rows tabular once empty fields are gone', () => {
+    const users = [
+      { id: 1, name: 'Ada', extra: {} },
+      { id: 2, name: 'Bob', extra: {} },
+    ]
+    expect(encode({ users }, { prune: { emptyObject: true } })).toBe('users[2]{id,name}:\n  1,Ada\n  2,Bob')
+  })
+})
+
+describe('Per-Path Overrides', () => {
+  const input = {
+    logs: [{ t: 1, msg: 'a, b' }, { t: 2, msg: 'c' }],
+    users: [{ id: 1, name: 'Ada' }],
+    tags: ['x', 'y'],
+  }
+
+  it('changes the delimiter of one array only', () => {
+    expect(encode(input, { overrides: { logs: { delimiter: '\t' } } })).toBe([
+      'logs[2\t]{t\tmsg}:',
+      '  1\ta, b',
+      '  2\tc',
+      'users[1]{id,name}:',
+      '  1,Ada',
+      'tags[2]: x,y',
+    ].join('\n'))
+  })
+
+  it('adds length markers and forces a layout where the pattern matches', () => {
+    expect(encode(input, { overrides: { tags: { lengthMarker: '#', layout: 'list' }, '*': { lengthMarker: '#' } } }))
+      .toBe([
+        'logs[#2]{t,msg}:',
+        '  1,"a, b"',
+        '  2,c',
+        'users[#1]{id,name}:',
+        '  1,Ada',
+        'tags[#2]:',
+        '  - x',
+        '  - y',
+      ].join('\n'))
+  })
+
+  it('indents the lines inside an array', () => {
+    const nested = { items: [{ list: [{ a: 1 }, { a: 2, b: 3 }], n: 1 }] }
+    expect(encode(nested, { overrides: { 'items[*].list': { indent: 4 } } })).toBe([
+      'items[1]:',
+      '  - list[2]:',
+      '      - a: 1',
+      '      - a: 2',
+      '          b: 3',
+      '    n: 1',
+    ].join('\n'))
+  })
+
+  it('decodes arrays with a wider indent back to the input', () => {
+    const value = { items: [{ list: [{ a: 1 }, { a: 2, b: 3 }], n: 1 }], table: [{ x: 1, y: 2 }, { x: 3, y: 4 }], z: 1 }
+    const toon = encode(value, { overrides: { items: { indent: 6 }, 'items[*].list': { indent: 2 }, table: { indent: 4 } } })
+    expect(JSON.stringify(decode(toon))).toBe(JSON.stringify(value))
+  })
+
+  it('rejects indents that are not a multiple of the document indent', () => {
+    expect(() => encode({ a: [1] }, { overrides: { a: { indent: 3 } } }))
+      .toThrow('Indent 3 for path "a" is not a multiple of the document indent 2')
+    expect(() => encode({ a: [1] }, { overrides: { a: { indent: 0 } } })).toThrow('Indent 0 for path "a"')
+    expect(() => encode({ a: [1] }, { indent: 0, overrides: { a: { indent: 2 } } })).toThrow('Indent 2 for path "a"')
+  })
+
+  it('names a root array with the empty pattern', () => {
+    const overrides = { '': { layout: 'list' as const } }
+    expect(encode([1, 2], { overrides })).toBe('[2]:\n  - 1\n  - 2')
+    expect(encode({ a: [1, 2] }, { overrides })).toBe('a[2]: 1,2')
+  })
+
+  it('lets later patterns win and auto keep the visitor choice', () => {
+    const options = {
+      overrides: { '**': { layout: 'list' as const }, users: { layout: 'auto' as const } },
+      visitArray: (path: string) => (path === 'users' ? ('tabular' as const) : undefined),
+    }
+    expect(encode({ users: [{ id: 1 }], ids: [1, 2] }, options)).toBe([
+      'users[1]{id}:',
+      '  1',
+      'ids[2]:',
+      '  - 1',
+      '  - 2',
+    ].join('\n'))
+  })
+
+  it('rejects inline layout for arrays of objects', () => {
+    expect(() => encode(input, { overrides: { users: { layout: 'inline' } } }))
+      .toThrow('Array at "users" cannot be encoded inline: items must be primitives')
+  })
+})
+
+describe('Source Map', () => {
+  it('returns a plain string without the option', () => {
+    expect(encode({ a: 1 })).toBe('a: 1')
+  })
+
+  it('maps every line to the JSON Pointer of its value', () => {
+    const { toon, sourceMap } = encodeWithSourceMap({ meta: { page: 1 }, tags: ['a'], items: [{ id: 1, x: [1] }, 3] })
+    expect(toon.split('\n')).toHaveLength(sourceMap.length)
+    expect(sourceMap.map(({ line, pointer }) => [line, pointer])).toEqual([
+      [1, '/meta'],
+      [2, '/meta/page'],
+      [3, '/tags'],
+      [4, '/items'],
+      [5, '/items/0/id'],
+      [6, '/items/0/x'],
+      [7, '/items/1'],
+    ])
+  })
+
+  it('gives the column range of every cell in tabular rows', () => {
+    const { toon, sourceMap } = encodeWithSourceMap({ users: [{ id: 1, name: 'Ada' }, { id: 22, name: 'Bob' }] })
+    const lines = toon.split('\n')
+    expect(sourceMap[0]).toEqual({ line: 1, pointer: '/users' })
+    expect(sourceMap[2]).toEqual({
+      line: 3,
+      pointer: '/users/1',
+      cells: [
+        { start: 2, end: 4, pointer: '/users/1/id' },
+        { start: 5, end: 8, pointer: '/users/1/name' },
+      ],
+    })
+    expect(sourceMap[2].cells?.map(({ start, end }) => lines[2].slice(start, end))).toEqual(['22', 'Bob'])
+  })
+
+  it('escapes pointer segments and follows flattened columns', () => {
+    const { sourceMap } = encodeWithSourceMap({ 'a/b': [{ id: 1, address: { city: 'Berlin' } }] }, { flattenColumns: true })
+    expect(sourceMap[1].cells?.map(({ pointer }) => pointer)).toEqual(['/a~1b/0/id', '/a~1b/0/address/city'])
+  })
+
+  it('points into the input after sampling and projection', () => {
+    const users = Array.from({ length: 40 }, (_, i) => ({ id: i + 1, secret: 'x' }))
+    const options = { maxTokens: 40, strategy: 'sample' as const, exclude: ['**.secret'] }
+    const { toon, sourceMap } = encodeWithSourceMap({ users }, options)
+    const lines = toon.split('\n')
+    expect(lines[2]).toBe('  3')
+    expect(sourceMap[2]).toEqual({ line: 3, pointer: '/users/2', cells: [{ start: 2, end: 3, pointer: '/users/2/id' }] })
+    expect(lines[lines.length - 2]).toBe('_omitted:')
+    expect(sourceMap[sourceMap.length - 1].pointer).toBe('')
+    expect(encodeWithReport({ users }, { ...options, sourceMap: true }).sourceMap).toEqual(sourceMap)
+    expect(encodeWithSourceMap({ a: [1, 2, 3] }, { exclude: ['a[1]'] }).sourceMap[0].pointer).toBe('/a')
+    expect(encodeWithSourceMap({ a: [{ x: 1 }, { x: 2 }, { x: 3 }] }, { exclude: ['a[1]'] }).sourceMap[2].pointer).toBe('/a/2')
+  })
+
+  it('points to the input keys of aliased and canonical keys', () => {
+    const input = { customers: [{ customerId: 1 }], owner: { customerId: 9 }, 'cafe\u0301': 1 }
+    const { toon, sourceMap } = encodeWithSourceMap(input, { aliasKeys: true, canonical: true })
+    expect(toon).toBe('_legend:\n  ci: customerId\n"café": 1\ncustomers[1]{ci}:\n  1\nowner:\n  ci: 9')
+    expect(sourceMap.map(({ pointer }) => pointer)).toEqual(['', '', '/cafe\u0301', '/customers', '/customers/0', '/owner', '/owner/customerId'])
+    expect(sourceMap[4].cells?.[0].pointer).toBe('/customers/0/customerId')
+  })
+
+  it('points partitioned and grouped rows to their input position', () => {
+    const events = [{ type: 'click', x: 1 }, { type: 'buy', sku: 'a' }, { type: 'click', x: 2 }]
+    const partitioned = encodeWithSourceMap({ events }, { partitionShapes: { by: 'type' } })
+    expect(partitioned.toon).toBe('events.click[2]{_index,type,x}:\n  0,click,1\n  2,click,2\nevents.buy[1]{_index,type,sku}:\n  1,buy,a')
+    expect(partitioned.sourceMap.map(({ pointer }) => pointer)).toEqual(['/events', '/events/0', '/events/2', '/events', '/events/1'])
+    expect(partitioned.sourceMap[2].cells?.map(({ pointer }) => pointer)).toEqual(['/events/2', '/events/2/type', '/events/2/x'])
+
+    const rows = [{ c: 1, v: 1 }, { c: 2, v: 2 }, { c: 1, v: 3 }]
+    const grouped = encodeWithSourceMap({ rows }, { groupBy: { rows: { fields: ['c'] } } })
+    expect(grouped.toon).toBe('rows[2]:\n  - c: 1\n    items[2]{v}:\n      1\n      3\n  - c: 2\n    items[1]{v}:\n      2')
+    expect(grouped.sourceMap.map(({ pointer }) => pointer)).toEqual(['/rows', '/rows/0/c', '/rows', '/rows/0', '/rows/2', '/rows/1/c', '/rows', '/rows/1'])
+  })
+
+  it('points lines the encoder adds to the object they were added to', () => {
+    const items = [{ sku: 'A', currency: 'EUR' }, { sku: 'B', currency: 'EUR' }, { sku: 'C', currency: 'EUR' }]
+    const { toon, sourceMap } = encodeWithSourceMap({ order: { items } }, { hoistConstants: true })
+    expect(toon.split('\n').slice(5)).toEqual(['  _constants:', '    items:', '      currency: EUR'])
+    expect(sourceMap.slice(5).map(({ pointer }) => pointer)).toEqual(['/order', '/order', '/order'])
+  })
+
+  it('keeps counting lines inside reindented arrays', () => {
+    const { sourceMap } = encodeWithSourceMap({ logs: [{ t: 1 }, { t: 2 }], n: 1 }, { overrides: { logs: { indent: 4 } } })
+    expect(sourceMap.map(({ pointer }) => pointer)).toEqual(['/logs', '/logs/0', '/logs/1', '/n'])
+    expect(sourceMap[1].cells).toEqual([{ start: 4, end: 5, pointer: '/logs/0/t' }])
+  })
+})
+
+describe('Round-Trip Verification', () => {
+  it('passes output that decodes back identically', () => {
+    const input = { users: [{ id: 1, name: 'Ada' }], items: [{ x: [[1, 2], [3]], y: 1 }], empty: {} }
+    expect(encode(input, { verify: 'throw' })).toBe(encode(input))
+    expect(encodeWithReport(input, { verify: 'report' }).verification).toEqual({ ok: true })
+    expect(encode({}, { verify: 'throw' })).toBe('')
+  })
+
+  it('throws at the first differing path', () => {
+    const input = { users: [{ id: 1, name: 'Ada' }, { name: 'Bob', id: 2 }] }
+    expect(() => encode(input, { verify: 'throw' }))
+      .toThrow('Round trip differs at "users[1]": key order differs: expected name, id, decoded id, name')
+    try {
+      encode(input, { verify: 'throw' })
+    }
+    catch (error) {
+      expect(error).toBeInstanceOf(EncodeError)
+      expect((error as EncodeError).path).toBe('users[1]')
+    }
+  })
+
+  it('reports the difference instead of throwing', () => {
+    const report = encodeWithReport({ list: [{}], n: 1 }, { verify: 'report' })
+    expect(report.toon).toBe('list[1]:\n  -\nn: 1')
+    expect(report.verification).toEqual({
+      ok: false,
+      difference: { path: 'list[0]', message: 'expected {}, decoded "-"' },
+    })
+  })
+
+  it('reports values changed by number formatting', () => {
+    const report = encodeWithReport({ pi: 3.14159 }, { verify: 'report', numberFormat: { maxFractionDigits: 2 } })
+    expect(report.verification?.difference).toEqual({ path: 'pi', message: 'expected 3.14159, decoded 3.14' })
+    const items = [{ sku: 'A', price: 9.999 }]
+    expect(() => encode({ items }, { verify: 'throw', columnNumberFormats: { price: { maxFractionDigits: 2 } } }))
+      .toThrow('Round trip differs at "items[0].price": expected 9.999, decoded 10')
+    expect(encode({ big: 1e21 }, { verify: 'throw', numberFormat: { plainDecimal: true } })).toBe('big: 1000000000000000000000')
+  })
+
+  it('decodes with the options matching the encoding', () => {
+    const input = { data: { user: { id: 1 } }, rows: [{ id: 1, address: { city: 'Berlin' } }] }
+    expect(encodeWithReport(input, { verify: 'report', keyFolding: 'safe', flattenColumns: true }).verification)
+      .toEqual({ ok: true })
+  })
+
+  it('reverses partitions, constants, dictionary codes and aliases before comparing with the input', () => {
+    const status = 'Waiting for customer response'
+    const events = [
+      { type: 'click', tenant: 'acme', note: status, x: 1 },
+      { type: 'view', tenant: 'acme', note: status, page: 'home' },
+      { type: 'click', tenant: 'acme', note: status, x: 2 },
+      { type: 'click', tenant: 'acme', note: 'Other', x: 3 },
+    ]
+    const input = { accountIdentifier: 7, events, overrides: [{ a: 1 }, { a: 2 }] }
+    const options = {
+      verify: 'throw' as const,
+      partitionShapes: { by: 'type' },
+      hoistConstants: { minRows: 2 },
+      dictionary: { minCount: 2 },
+      overrides: { '**': { indent: 4 } },
+    }
+    expect(() => encode(input, { ...options, aliasKeys: true })).not.toThrow()
+    expect(encodeWithReport(input, { ...options, aliasKeys: { legend: 'separate' } }).legend)
+      .toHaveProperty('ai', 'accountIdentifier')
+    expect(() => encode(input, { ...options, partitionShapes: { by: 'type', index: false } }))
+      .toThrow('Round trip differs at "events": missing after decoding')
+  })
+
+  it('compares with the input before the token budget', () => {
+    const report = encodeWithReport({ ids: Array.from({ length: 40 }, (_, i) => i) }, { verify: 'report', maxTokens: 20, markOmissions: false })
+    expect(report.verification?.difference?.path).toBe('ids')
+    expect(report.verification?.difference?.message).toMatch(/^expected 40 items, decoded \d+$/)
+  })
+})
+
+describe('Encoding Analysis', () => {
+  const layoutsOf = (input: unknown, options = {}) =>
+    analyze(input, options).arrays.map(({ path, layout, reason }) => [path, layout, reason])
+
+  it('explains why rows are not tabular', () => {
+    const users = Array.from({ length: 20 }, (_, i) => (i === 17 ? { id: i } : { id: i, email: `u${i}@x.io` }))
+    const posts = [{ id: 1, tags: ['a'] }, { id: 2, tags: ['b'] }, { id: 3, tags: [] }]
+    expect(layoutsOf({ users, posts })).toEqual([
+      ['users', 'list', 'row 17 missing key `email`'],
+      ['posts', 'list', 'field `tags` is non-primitive in 3 rows'],
+      ['posts[0].tags', 'inline', 'all items are primitives'],
+      ['posts[1].tags', 'inline', 'all items are primitives'],
+      ['posts[2].tags', 'inline', 'empty array'],
+    ])
+  })
+
+  it('explains tables, nested arrays and mixed items', () => {
+    const input = {
+      users: [{ id: 1, name: 'Ada' }, { id: 2, name: 'Bob' }],
+      grid: [[1, 2], [3]],
+      mixed: [1, 'a', { a: 1 }],
+      items: [{ list: [{ a: 1 }], n: 1 }],
+    }
+    expect(layoutsOf(input)).toEqual([
+      ['users', 'tabular', 'all rows have the same primitive fields'],
+      ['grid', 'list', 'items are arrays of primitives'],
+      ['mixed', 'list', 'mixed types: 1 object, 2 primitives'],
+      ['items', 'list', 'field `list` is non-primitive in 1 row'],
+      ['items[0].list', 'tabular', 'all rows have the same primitive fields'],
+    ])
+  })
+
+  it('reports sparse coverage and forced layouts', () => {
+    const rows = [{ a: 1, b: 2 }, { a: 3 }, { a: 4 }]
+    expect(layoutsOf({ rows }, { sparseTabular: true })).toEqual([
+      ['rows', 'list', 'row 1 missing key `b`; only 67% of cells filled, sparse tables need 80%'],
+    ])
+    expect(layoutsOf({ rows }, { sparseTabular: true, sparseThreshold: 0.5 })).toEqual([
+      ['rows', 'tabular', 'sparse table, 67% of cells filled'],
+    ])
+    expect(layoutsOf({ rows }, { overrides: { rows: { layout: 'tabular' } } })).toEqual([
+      ['rows', 'tabular', 'forced by overrides or visitArray'],
+    ])
+  })
+
+  it('estimates savings against indented JSON', () => {
+    const users = Array.from({ length: 10 }, (_, i) => ({ id: i, name: `User ${i}`, active: true }))
+    const result = analyze({ users })
+    const [array] = result.arrays
+    expect(array.length).toBe(10)
+    expect(array.jsonTokens).toBe(Math.ceil(JSON.stringify(users, null, 2).length / 4))
+    expect(array.toonTokens).toBe(Math.ceil(encode(users).length / 4))
+    expect(array.savings).toBe(array.jsonTokens - array.toonTokens)
+    expect(array.savings).toBeGreaterThan(0)
+    expect(result.toonTokens).toBe(Math.ceil(encode({ users }).length / 4))
+  })
+
+  it('counts nested arrays in their parents as well', () => {
+    const orders = [{ id: 1, lines: [{ sku: 'A', qty: 1 }, { sku: 'B', qty: 2 }] }, { id: 2, lines: [] }]
+    const [parent, ...nested] = analyze({ orders }).arrays
+    expect(nested.map(({ path }) => path)).toEqual(['orders[0].lines', 'orders[1].lines'])
+    expect(parent.toonTokens).toBe(Math.ceil(encode(orders).length / 4))
+    expect(parent.toonTokens).toBeGreaterThan(nested[0].toonTokens)
+  })
+})
+
+describe('Group By', () => {
+  const lines = [
+    { customerId: 1, customerName: 'Ada', country: 'DE', sku: 'A-1', qty: 2 },
+    { customerId: 2, customerName: 'Bob', country: 'FR', sku: 'A-1', qty: 5 },
+    { customerId: 1, customerName: 'Ada', country: 'DE', sku: 'B-2', qty: 1 },
+  ]
+
+  it('hoists the group fields and nests the remaining columns as a table', () => {
+    const groupBy = { lines: { fields: ['customerId', 'customerName', 'country'] } }
+    expect(encode({ lines }, { groupBy })).toBe([
+      'lines[2]:',
+      '  - customerId: 1',
+      '    customerName: Ada',
+      '    country: DE',
+      '    items[2]{sku,qty}:',
+      '      A-1,2',
+      '      B-2,1',
+      '  - customerId: 2',
+      '    customerName: Bob',
+      '    country: FR',
+      '    items[1]{sku,qty}:',
+      '      A-1,5',
+    ].join('\n'))
+  })
+
+  it('groups a root array into a custom child key', () => {
+    expect(encode(lines, { groupBy: { '': { fields: ['country'], childKey: 'orders' } } })).toBe([
+      '[2]:',
+      '  - country: DE',
+      '    orders[2]{customerId,customerName,sku,qty}:',
+      '      1,Ada,A-1,2',
+      '      1,Ada,B-2,1',
+      '  - country: FR',
+      '    orders[1]{customerId,customerName,sku,qty}:',
+      '      2,Bob,A-1,5',
+    ].join('\n'))
+  })
+
+  it('leaves arrays alone when a row lacks a primitive group field', () => {
+    const rows = [{ id: 1, tags: ['a'] }, { id: 2, tags: ['b'] }]
+    const input = { rows, other: [{ x: 1 }, { y: 2 }] }
+    expect(encode(input, { groupBy: { rows: { fields: ['tags'] }, other: { fields: ['x'] } } })).toBe(encode(input))
+  })
+
+  it('matches nested arrays by pattern', () => {
+    const input = { orders: [{ id: 1, lines: [{ sku: 'A', qty: 1 }, { sku: 'A', qty: 2 }] }] }
+    expect(encode(input, { groupBy: { 'orders[*].lines': { fields: ['sku'] } } })).toBe([
+      'orders[1]:',
+      '  - id: 1',
+      '    lines[1]:',
+      '      - sku: A',
+      '        items[2]{qty}:',
+      '          1',
+      '          2',
+    ].join('\n'))
+  })
+
+  it('rejects a child key that is also a group field', () => {
+    expect(() => encode({ lines }, { groupBy: { lines: { fields: ['sku'], childKey: 'sku' } } }))
+      .toThrow('Group child key "sku" at "lines" is also a grouping field')
+  })
+})
+
+describe('Constant Column Hoisting', () => {
+  const items = [1, 2, 3].map((i) => ({ sku: `S${i}`, qty: i, currency: 'EUR', tenant: 'acme' }))
+
+  it('moves constant columns into a _constants key', () => {
+    expect(encode({ id: 5, items }, { hoistConstants: true })).toBe([
+      'id: 5',
+      'items[3]{sku,qty}:',
+      '  S1,1',
+      '  S2,2',
+      '  S3,3',
+      '_constants:',
+      '  items:',
+      '    currency: EUR',
+      '    tenant: acme',
+    ].join('\n'))
+  })
+
+  it('records the column order when hoisted columns are not the last ones', () => {
+    const rows = items.map(({ sku, qty, currency }) => ({ currency, sku, qty }))
+    expect(encode({ rows }, { hoistConstants: true })).toBe([
+      'rows[3]{sku,qty}:',
+      '  S1,1',
+      '  S2,2',
+      '  S3,3',
+      '_constants:',
+      '  rows:',
+      '    currency: EUR',
+      '    _order[3]: currency,sku,qty',
+    ].join('\n'))
+  })
+
+  it('respects the minimum row count and excluded columns', () => {
+    expect(encode({ items }, { hoistConstants: { minRows: 4 } })).toBe(encode({ items }))
+    expect(encode({ items }, { hoistConstants: { exclude: ['tenant'] } })).toBe([
+      'items[3]{sku,qty,tenant}:',
+      '  S1,1,acme',
+      '  S2,2,acme',
+      '  S3,3,acme',
+      '_constants:',
+      '  items:',
+      '    currency: EUR',
+      '    _order[4]: sku,qty,currency,tenant',
+    ].join('\n'))
+  })
+
+  it('keeps tables whose columns are all constant or that are not tabular', () => {
+    const same = [{ a: 1 }, { a: 1 }, { a: 1 }]
+    const list = [{ a: 1, b: [1] }, { a: 1, b: [2] }, { a: 1, b: [] }]
+    expect(encode({ same, list }, { hoistConstants: true })).toBe(encode({ same, list }))
+  })
+
+  it('leaves root arrays and existing _constants keys alone', () => {
+    expect(encode(items, { hoistConstants: true })).toBe(encode(items))
+    const input = { items, _constants: 'mine' }
+    expect(encode(input, { hoistConstants: true })).toBe(encode(input))
+  })
+})
+
+describe('Shape Partitioning', () => {
+  const events = [
+    { type: 'click', x: 10, y: 20 },
+    { type: 'purchase', sku: 'A-1', amount: 9.5 },
+    { type: 'click', x: 30, y: 40 },
+  ]
+
+  it('splits mixed shapes into one table per discriminator value', () => {
+    expect(encode({ id: 1, events }, { partitionShapes: { by: 'type' } })).toBe([
+      'id: 1',
+      'events.click[2]{_index,type,x,y}:',
+      '  0,click,10,20',
+      '  2,click,30,40',
+      'events.purchase[1]{_index,type,sku,amount}:',
+      '  1,purchase,A-1,9.5',
+    ].join('\n'))
+  })
+
+  it('names parts by key set and can leave out the index column', () => {
+    expect(encode({ events }, { partitionShapes: { index: false } })).toBe([
+      'events.shape1[2]{type,x,y}:',
+      '  click,10,20',
+      '  click,30,40',
+      'events.shape2[1]{type,sku,amount}:',
+      '  purchase,A-1,9.5',
+    ].join('\n'))
+  })
+
+  it('leaves tabular, root and unpartitionable arrays alone', () => {
+    const rows = [{ a: 1 }, { a: 2 }]
+    const nested = [{ type: 'a', x: [1] }, { type: 'b', y: 2 }]
+    const input = { rows, nested, 'events.shape1': 1, events }
+    expect(encode(input, { partitionShapes: true })).toBe(encode(input))
+    expect(encode(events, { partitionShapes: true })).toBe(encode(events))
+    const named = [{ type: 'page-view', a: 1 }, { type: 'click', b: 2 }]
+    expect(encode({ named }, { partitionShapes: { by: 'type' } })).toBe(encode({ named }))
+  })
+
+  it('passes round-trip verification', () => {
+    expect(() => encode({ events }, { partitionShapes: true, verify: 'throw' })).not.toThrow()
+  })
+})
+
+describe('Key Aliasing', () => {
+  const input = {
+    customers: [
+      { customerAccountIdentifier: 1, name: 'Ada', accountStatus: 'active' },
+      { customerAccountIdentifier: 2, name: 'Bob', accountStatus: 'closed' },
+    ],
+    owner: { customerAccountIdentifier: 9 },
+  }
+
+  it('aliases long keys by their initials and writes a _legend key', () => {
+    expect(encode(input, { aliasKeys: true })).toBe([
+      '_legend:',
+      '  cai: customerAccountIdentifier',
+      '  as: accountStatus',
+      'customers[2]{cai,name,as}:',
+      '  1,Ada,active',
+      '  2,Bob,closed',
+      'owner:',
+      '  cai: 9',
+    ].join('\n'))
+  })
+
+  it('uses given aliases first and avoids existing keys', () => {
+    const toon = encode({ ...input, cai: true }, { aliasKeys: { aliases: { name: 'n' }, minLength: 14 } })
+    expect(toon).toContain('_legend:\n  n: name\n  cai2: customerAccountIdentifier\n')
+    expect(toon).toContain('customers[2]{cai2,n,accountStatus}:')
+    expect(() => encode(input, { aliasKeys: { aliases: { name: 'owner' } } })).toThrow(
+      'Alias "owner" for key "name" is already in use',
+    )
+  })
+
+  it('returns a separate legend from encodeWithReport', () => {
+    const report = encodeWithReport(input, { aliasKeys: { auto: false, aliases: { name: 'n' }, legend: 'separate' } })
+    expect(report.toon).not.toContain('_legend')
+    expect(report.toon).toContain('customers[2]{customerAccountIdentifier,n,accountStatus}:')
+    expect(report.legend).toEqual({ n: 'name' })
+  })
+
+  it('leaves non-object roots and existing _legend keys alone with an inline legend', () => {
+    expect(encode(input.customers, { aliasKeys: true })).toBe(encode(input.customers))
+    const withLegend = { ...input, _legend: 'mine' }
+    expect(encode(withLegend, { aliasKeys: true })).toBe(encode(withLegend))
+    expect(encodeWithReport(input.customers, { aliasKeys: { legend: 'separate' } }).toon).toContain('[2]{cai,name,as}:')
+  })
+
+  it('rejects a separate legend where it cannot be returned', () => {
+    const options = { aliasKeys: { legend: 'separate' as const } }
+    expect(() => encode(input, options)).toThrow('A separate key legend is only returned by encodeWithReport')
+    expect(() => [...encodeLines(input, options)]).toThrow('A separate key legend is only returned by encodeWithReport')
+    expect(analyze(input, options).toonTokens).toBeLessThan(analyze(input, { aliasKeys: true }).toonTokens)
+  })
+
+  it('never aliases _legend keys', () => {
+    const nested = { rows: [{ _legend: 'a', longKey: 1 }], meta: { _legend: 'b' } }
+    const toon = encode(nested, { aliasKeys: { minLength: 5 } })
+    expect(toon).toContain('rows[1]{_legend,lk}:')
+    expect(toon).toContain('meta:\n  _legend: b')
+    expect(() => encode(nested, { aliasKeys: { aliases: { longKey: '_legend' } } })).toThrow(
+      'Alias "_legend" for key "longKey" is already in use',
+    )
+  })
+})
+
+describe('Value Dictionary', () => {
+  const waiting = 'Waiting for customer response'
+  const tickets = [
+    { id: 1, status: waiting },
+    { id: 2, status: waiting },
+    { id: 3, status: 'Closed by the support team' },
+    { id: 4, status: waiting },
+  ]
+
+  it('replaces repeated long strings with codes and lists them in _dictionary', () => {
+    expect(encode({ tickets }, { dictionary: true })).toBe([
+      'tickets[4]{id,status}:',
+      '  1,~1',
+      '  2,~1',
+      '  3,Closed by the support team',
+      '  4,~1',
+      '_dictionary:',
+      '  tickets:',
+      '    status[1]{code,value}:',
+      `      ~1,${waiting}`,
+    ].join('\n'))
+  })
+
+  it('respects minLength and minCount', () => {
+    expect(encode({ tickets }, { dictionary: { minLength: 30 } })).toBe(encode({ tickets }))
+    expect(encode({ tickets }, { dictionary: { minCount: 4 } })).toBe(encode({ tickets }))
+    expect(encode({ tickets }, { dictionary: { minCount: 1 } })).toContain('  3,~2\n')
+  })
+
+  it('skips codes that are values of the column', () => {
+    const rows = [...tickets, { id: 5, status: '~1' }]
+    const toon = encode({ rows }, { dictionary: true })
+    expect(toon).toContain('  1,~2\n')
+    expect(toon).toContain('  5,~1\n')
+  })
+
+  it('leaves root arrays, lists and existing _dictionary keys alone', () => {
+    expect(encode(tickets, { dictionary: true })).toBe(encode(tickets))
+    const list = tickets.map((ticket, i) => (i === 0 ? { ...ticket, tags: ['a'] } : ticket))
+    expect(encode({ list }, { dictionary: true })).toBe(encode({ list }))
+    const input = { tickets, _dictionary: 'mine' }
+    expect(encode(input, { dictionary: true })).toBe(encode(input))
+  })
+})
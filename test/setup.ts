@@ -3,5 +3,5 @@
  * This allows tests to run directly with vitest without building first
  */
 
-export { encode, decode } from '../src/toon-lib';
+export { EncodeError, analyze, encode, encodeLines, encodeStream, encodeToSink, encodeWithReport, encodeWithSourceMap, encodeWithinBudget, decode, toonHash } from '../src/toon-lib';
 